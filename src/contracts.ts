@@ -165,6 +165,18 @@ export const X402_TOKEN_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+
+  // ==================== Errors ====================
+  {
+    inputs: [],
+    name: 'AlreadyMinted',
+    type: 'error',
+  },
+  {
+    inputs: [],
+    name: 'MaxMintCountExceeded',
+    type: 'error',
+  },
 ] as const;
 
 /**
@@ -1,15 +1,261 @@
 /**
  * Concurrency control middleware
- * All functionality has been removed
+ * Idempotency for retried X-PAYMENT submissions
  */
 
-import { type Request, type Response, type NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { type Request, type Response, type NextFunction, type RequestHandler } from 'express';
+import { Redis } from 'ioredis';
+import { exact } from 'x402/schemes';
+import type { Authorization } from 'x402/types';
+import { RedisConnectionManager } from '../utils/redisConnectionPool.js';
+import { errorMessage } from '../utils/errors.js';
 
-// Export empty middleware function to maintain compatibility
-export function deduplicationMiddleware(_req: Request, _res: Response, next: NextFunction) {
-  next();
+export interface DeduplicationOptions {
+  inFlightTtlMs?: number;   // Lifetime of the in-flight marker (must outlast settle + mint)
+  resultTtlMs?: number;     // How long a completed response is replayed
+  waitTimeoutMs?: number;   // How long a duplicate waits for the original outcome
+  pollIntervalMs?: number;  // Poll interval while waiting
 }
 
-export function addressCooldownMiddleware(_req: Request, _res: Response, next: NextFunction) {
-  next();
-}
\ No newline at end of file
+interface InFlightRecord {
+  state: 'in_flight';
+  fingerprint: string;
+  startedAt: number;
+}
+
+interface CompletedRecord {
+  state: 'completed';
+  fingerprint: string;
+  statusCode: number;
+  body: unknown;
+  headers: Record<string, string>;
+  completedAt: number;
+}
+
+type IdempotencyRecord = InFlightRecord | CompletedRecord;
+
+const KEY_PREFIX = 'idempotency:';
+
+// Response headers worth replaying
+const REPLAYED_HEADERS = ['x-payment-response', 'x-request-id', 'location', 'preference-applied'];
+
+interface DecodedPayment {
+  authorization: Authorization;
+  asset: string;            // Payment contract, empty for payloads in the primary asset
+}
+
+/**
+ * Decode the EIP-3009 authorization of a request's X-PAYMENT header
+ * @returns null for requests without a payment or with a malformed one (the handler rejects those)
+ */
+function decodeRequestPayment(req: Request): DecodedPayment | null {
+  const paymentHeader = req.get('x-payment');
+  if (!paymentHeader) {
+    return null;
+  }
+
+  try {
+    const { payload } = exact.evm.decodePayment(paymentHeader);
+    return { authorization: payload.authorization, asset: payload.contract || '' };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Derive the idempotency key for a request
+ * Both forms are scoped to the payer of the EIP-3009 authorization: the Idempotency-Key header
+ * when present, otherwise the authorization nonce. Requests without a payment can't consume
+ * anything and aren't deduplicated.
+ */
+function getIdempotencyKey(req: Request, payment: DecodedPayment): string {
+  const payer = payment.authorization.from.toLowerCase();
+
+  const headerKey = req.get('idempotency-key')?.trim();
+  if (headerKey) {
+    return `${KEY_PREFIX}key:${payer}:${headerKey}`;
+  }
+  return `${KEY_PREFIX}payment:${payer}:${payment.authorization.nonce.toLowerCase()}`;
+}
+
+/**
+ * Fingerprint of what the request mints and pays, so a reused key for a different mint is rejected
+ * Built from canonical fields only - formatting, key order, address case and recipient order of the
+ * body don't change it, and neither does the signature encoding of the same authorization
+ */
+function getFingerprint(req: Request, payment: DecodedPayment): string {
+  const { tokenAddress, recipients } = req.body ?? {};
+  const canonical = {
+    tokenAddress: String(tokenAddress ?? '').trim().toLowerCase(),
+    recipients: Array.isArray(recipients)
+      ? recipients.map(recipient => String(recipient).trim().toLowerCase()).sort()
+      : null,
+    asset: payment.asset.toLowerCase(),
+    value: String(payment.authorization.value),
+    nonce: payment.authorization.nonce.toLowerCase(),
+  };
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/**
+ * Only responses after which the payment may have been consumed are replayed.
+ * Everything else failed before settlement and is safe to process again.
+ */
+function shouldStoreResponse(statusCode: number, body: unknown): boolean {
+  if (statusCode >= 200 && statusCode < 300) return true;
+  return Boolean(body && typeof body === 'object' && (body as { paymentTxHash?: unknown }).paymentTxHash);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Idempotency middleware for payment endpoints
+ * - First request: marked in flight in Redis, its response is stored on completion
+ * - Duplicate while in flight: waits for and replays the original outcome
+ * - Duplicate after completion: replays the stored response
+ * Fails open when Redis is unavailable.
+ */
+export function deduplicationMiddleware(redisUrl?: string, options: DeduplicationOptions = {}): RequestHandler {
+  const inFlightTtlMs = options.inFlightTtlMs || 600000;     // 10 minutes
+  const resultTtlMs = options.resultTtlMs || 86400000;       // 24 hours
+  const waitTimeoutMs = options.waitTimeoutMs || 420000;     // 7 minutes (verify 60s + settle 180s + receipt 120s + queueing)
+  const pollIntervalMs = options.pollIntervalMs || 1000;
+
+  let redis: Redis | null = null;
+  const ensureConnection = async (): Promise<Redis | null> => {
+    if (!redis && redisUrl) {
+      redis = await RedisConnectionManager.getConnection(redisUrl);
+    }
+    return redis;
+  };
+
+  const replay = (res: Response, record: CompletedRecord) => {
+    for (const [name, value] of Object.entries(record.headers)) {
+      res.setHeader(name, value);
+    }
+    res.setHeader('Idempotent-Replayed', 'true');
+    return res.status(record.statusCode).json(record.body);
+  };
+
+  /**
+   * Capture the handler's response and store (or release) the idempotency record
+   * The record is written when res.json is called, before anything reaches the socket: a client that
+   * drops mid-request only produces 'close' (never 'finish'), and its retry must still find the outcome.
+   * Non-JSON responses are finalized on 'finish'. A 'close' before the handler responds leaves the
+   * in-flight marker alone - the handler is still settling and will record its outcome.
+   */
+  const trackResponse = (res: Response, client: Redis, key: string, fingerprint: string) => {
+    let finalized = false;
+
+    const finalize = async (body: unknown) => {
+      if (finalized) return;
+      finalized = true;
+
+      try {
+        if (body !== undefined && shouldStoreResponse(res.statusCode, body)) {
+          const headers: Record<string, string> = {};
+          for (const name of REPLAYED_HEADERS) {
+            const value = res.getHeader(name);
+            if (value !== undefined) headers[name] = String(value);
+          }
+
+          const record: CompletedRecord = {
+            state: 'completed',
+            fingerprint,
+            statusCode: res.statusCode,
+            body,
+            headers,
+            completedAt: Date.now(),
+          };
+          await client.set(key, JSON.stringify(record), 'PX', resultTtlMs);
+          console.log(`💾 Idempotency - Stored response for ${key} (${res.statusCode})`);
+        } else {
+          await client.del(key);
+          console.log(`🔓 Idempotency - Released ${key} (${res.statusCode}, safe to retry)`);
+        }
+      } catch (error) {
+        console.error(`❌ Idempotency - Failed to finalize ${key}:`, errorMessage(error));
+      }
+    };
+
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      void finalize(body);
+      return originalJson(body);
+    };
+
+    res.on('finish', () => {
+      void finalize(undefined);
+    });
+  };
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const payment = decodeRequestPayment(req);
+    if (!payment) {
+      return next();
+    }
+    const key = getIdempotencyKey(req, payment);
+
+    let client: Redis | null;
+    try {
+      client = await ensureConnection();
+    } catch (error) {
+      console.error(`❌ Idempotency - Redis connection failed:`, errorMessage(error));
+      client = null;
+    }
+    if (!client) {
+      console.warn('⚠️ Idempotency - Redis not available, processing without deduplication');
+      return next();
+    }
+
+    const fingerprint = getFingerprint(req, payment);
+    const deadline = Date.now() + waitTimeoutMs;
+
+    try {
+      while (Date.now() < deadline) {
+        const inFlight: InFlightRecord = { state: 'in_flight', fingerprint, startedAt: Date.now() };
+        const acquired = await client.set(key, JSON.stringify(inFlight), 'PX', inFlightTtlMs, 'NX');
+
+        if (acquired === 'OK') {
+          trackResponse(res, client, key, fingerprint);
+          return next();
+        }
+
+        const raw = await client.get(key);
+        if (!raw) {
+          // Original released its key between SET and GET - try to acquire again
+          continue;
+        }
+
+        const record = JSON.parse(raw) as IdempotencyRecord;
+        if (record.fingerprint !== fingerprint) {
+          return res.status(422).json({
+            error: 'Idempotency key reused',
+            message: 'This idempotency key or payment authorization was already used with a different request',
+          });
+        }
+
+        if (record.state === 'completed') {
+          console.log(`♻️ Idempotency - Replaying stored response for ${key}`);
+          return replay(res, record);
+        }
+
+        // Original request still in flight - wait for its outcome
+        await sleep(pollIntervalMs);
+      }
+
+      res.setHeader('Retry-After', Math.ceil(pollIntervalMs / 1000) * 5);
+      return res.status(409).json({
+        error: 'Request already in progress',
+        message: 'A request with the same payment is still being processed. Retry later to receive its result.',
+      });
+    } catch (error) {
+      console.error(`❌ Idempotency - Error handling ${key}:`, errorMessage(error));
+      // Fail open
+      return next();
+    }
+  };
+}
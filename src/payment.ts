@@ -1,4 +1,4 @@
-import { type Address, type Hex } from 'viem';
+import { type Account, type Address, type Chain, type Hex, type PublicClient, type Transport, type WalletClient } from 'viem';
 import { randomBytes } from 'crypto';
 import {
   verifyTransferWithAuthorization,
@@ -7,6 +7,7 @@ import {
   type TransferWithAuthorizationMessage,
 } from './eip3009.js';
 import { USDC_ABI } from './contracts.js';
+import { errorMessage } from './utils/errors.js';
 
 /**
  * Payment request storage
@@ -22,7 +23,7 @@ interface PaymentRequest {
   createdAt: number;
   fulfilled: boolean;
   txHash?: Hex;
-  metadata?: Record<string, any>; // Store mint request details
+  metadata?: Record<string, unknown>; // Store mint request details
 }
 
 // In-memory storage (replace with Redis in production)
@@ -37,7 +38,7 @@ export function createPaymentRequest(
   payee: Address,
   token: Address,
   validitySeconds: number = 600,
-  metadata?: Record<string, any>
+  metadata?: Record<string, unknown>
 ): PaymentRequest {
   const id = randomBytes(16).toString('hex');
   const nonce = ('0x' + randomBytes(32).toString('hex')) as Hex;
@@ -89,8 +90,8 @@ export function getPaymentByTxHash(txHash: Hex): PaymentRequest | undefined {
 export async function submitAuthorization(
   authorization: TransferWithAuthorizationMessage,
   signature: Hex,
-  walletClient: any,
-  publicClient: any,
+  walletClient: WalletClient<Transport, Chain, Account>,
+  publicClient: PublicClient,
   chainId: number
 ): Promise<{ success: boolean; txHash?: Hex; error?: string }> {
   try {
@@ -196,9 +197,9 @@ export async function submitAuthorization(
     console.log(`   Amount: ${authorization.value}`);
 
     return { success: true, txHash: hash };
-  } catch (error: any) {
+  } catch (error) {
     console.error('Authorization submission error:', error);
-    return { success: false, error: error.message || 'Failed to submit authorization' };
+    return { success: false, error: errorMessage(error) || 'Failed to submit authorization' };
   }
 }
 
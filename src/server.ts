@@ -1,19 +1,47 @@
-import express, { type Request, type Response } from 'express';
+import express, { type NextFunction, type Request, type Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import {
   type Address,
   type Hex,
-  parseUnits,
+  formatUnits,
+  isAddress,
 } from 'viem';
-import { bsc } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
 import { exact } from 'x402/schemes';
 import { settleResponseHeader } from 'x402/types';
-import type { PaymentPayload } from 'x402/types';
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from 'x402/types';
 // No longer using Thirdweb SDK, using HTTP API instead
 import { getBatchSettleManager, shutdownBatchSettleManager } from './utils/batchSettleManager.js';
-import { TokenCapacityManager, TokenDeadlineCache } from './utils/tokenCapacityManager.js';
+import { type CapacityExceededError, type TokenCapacityInfo, TokenCapacityManager, TokenDeadlineCache } from './utils/tokenCapacityManager.js';
+import { deriveMintKeys, getMintExecutor, shutdownMintExecutor } from './utils/mintExecutor.js';
+import { getMintCountWatcher, shutdownMintCountWatcher } from './utils/mintCountWatcher.js';
+import { getRpcPool } from './utils/rpcPool.js';
+import { resolveChainConfig } from './utils/chains.js';
+import { getReadAggregator } from './utils/readAggregator.js';
+import { getCapacityStreamHub, shutdownCapacityStreamHub } from './utils/capacityStream.js';
+import { getRpcHealthMonitor, shutdownRpcHealthMonitor } from './utils/rpcHealthMonitor.js';
+import { type RegisteredToken, type TokenRegistry, getTokenRegistry, shutdownTokenRegistry } from './utils/tokenRegistry.js';
+import { TokenInfoService, getTokenLaunchStatus } from './utils/tokenInfo.js';
+import { LaunchPhaseGate } from './utils/launchPhaseGate.js';
+import { type MintPrice, calculateMintPrice, parseVolumeTiers } from './utils/pricing.js';
+import { type TokenEconomics, TokenEconomicsResolver } from './utils/tokenEconomics.js';
+import { type PaymentOption, PaymentAssetRegistry, parsePaymentAssets } from './utils/paymentAssets.js';
+import { X402_VERSION, buildPaymentRequirements, buildPaymentRequiredResponse } from './utils/paymentRequirements.js';
+import { validateRecipients } from './utils/recipientValidation.js';
+import { type MintQuotePayload, MintQuoteSigner } from './utils/mintQuote.js';
+import { deduplicationMiddleware } from './middleware/concurrencyControl.js';
+import { errorCode, errorMessage } from './utils/errors.js';
+import {
+  type MintJobStatus,
+  type MintJobUpdatedEvent,
+  type SuccessfulMintFilter,
+  type AssetRevenue,
+  TERMINAL_MINT_JOB_STATUSES,
+  initMintJobStore,
+  getMintJobStore,
+  closeMintJobStore,
+} from './utils/mintJobStore.js';
 
 // Load environment variables
 dotenv.config();
@@ -23,19 +51,102 @@ dotenv.config();
 const PORT = process.env.PORT || 3001;
 const IS_PRODUCTION = process.env.NODE_ENV === 'production';
 
-// Payment Chain: BSC Mainnet (for x402 payment collection)
-const PAYMENT_CHAIN = bsc;
+// Payment Chain (x402 payment collection): PAYMENT_CHAIN = bsc | bscTestnet | local
 // Note: PAYMENT_RPC_URL not needed - facilitator handles payment chain RPC
+const PAYMENT_CHAIN_CONFIG = resolveChainConfig(process.env.PAYMENT_CHAIN);
+const PAYMENT_CHAIN = PAYMENT_CHAIN_CONFIG.chain;
+const PAYMENT_NETWORK = PAYMENT_CHAIN_CONFIG.network; // x402 network identifier
 
-// Mint Chain: BSC Testnet (for token minting)
-const MINT_CHAIN = bsc;
+// Mint Chain (batchMint, capacity and token reads): MINT_CHAIN = bsc | bscTestnet | local
+const MINT_CHAIN = resolveChainConfig(process.env.MINT_CHAIN).chain;
 
 // x402 Payment Configuration
-const PAYMENT_TOKEN_ADDRESS = '0x2CBa817f6e3Ca58ff702Dc66feEEcb230A2EF349' as Address; // USD4 on BSC Mainnet
-const PAYMENT_TOKEN_NAME = 'USD4'; // Token name for EIP-712 domain
-// Note: x402 protocol limits value to 18 characters max
-// For 6 decimal tokens, max is 999999999999 (12 chars)
-const MINT_PRICE_USDT = parseUnits('10', 6); // 10 USD4 per mint request (1000000 wei = 7 chars)
+// Each token's PAYMENT_TOKEN and paymentSeed are read from its contract (TokenEconomicsResolver);
+// the asset below keeps its configured EIP-712 domain name when a token pays in it
+const PAYMENT_TOKEN_ADDRESS = (process.env.PAYMENT_TOKEN_ADDRESS || '0x2CBa817f6e3Ca58ff702Dc66feEEcb230A2EF349') as Address; // USD4 on BSC Mainnet by default
+const PAYMENT_TOKEN_NAME = process.env.PAYMENT_TOKEN_NAME || 'USD4'; // Token name for EIP-712 domain
+// Volume discounts: "minRecipients:discountBps" pairs, e.g. "10:500,50:1000" (5% from 10, 10% from 50)
+const MINT_VOLUME_TIERS = parseVolumeTiers(process.env.MINT_VOLUME_TIERS);
+
+// Additional EIP-3009 assets accepted as payment (JSON array, see .env.example)
+// Decimals of every asset are read from its contract; they are paid to PAYMENT_TREASURY_ADDRESS
+const PAYMENT_TREASURY_ADDRESS = process.env.PAYMENT_TREASURY_ADDRESS?.trim() || undefined;
+if (PAYMENT_TREASURY_ADDRESS && !isAddress(PAYMENT_TREASURY_ADDRESS)) {
+  throw new Error(`Invalid PAYMENT_TREASURY_ADDRESS: ${PAYMENT_TREASURY_ADDRESS}`);
+}
+const additionalPaymentAssets = parsePaymentAssets(process.env.PAYMENT_ASSETS);
+if (additionalPaymentAssets.length > 0 && !PAYMENT_TREASURY_ADDRESS) {
+  console.warn('⚠️ PAYMENT_ASSETS is ignored without PAYMENT_TREASURY_ADDRESS - only each token\'s PAYMENT_TOKEN is accepted');
+}
+const paymentAssetRegistry = new PaymentAssetRegistry([
+  { address: PAYMENT_TOKEN_ADDRESS, name: PAYMENT_TOKEN_NAME, version: '1' },
+  ...additionalPaymentAssets,
+], {
+  getAssetInfo: address => tokenEconomicsResolver.getPaymentAssetInfo(address),
+  treasury: PAYMENT_TREASURY_ADDRESS as Address | undefined,
+});
+
+type PricedPaymentOption = PaymentOption & { mintPrice: MintPrice; requirements: PaymentRequirements };
+
+// Signed price quotes (GET /api/mint/quote), honored by a paid request that references them
+// A per-process secret would reject quotes issued by another replica or before a restart
+if (IS_PRODUCTION && !process.env.MINT_QUOTE_SECRET) {
+  throw new Error('MINT_QUOTE_SECRET is required in production');
+}
+const mintQuoteSigner = new MintQuoteSigner(
+  process.env.MINT_QUOTE_SECRET,
+  parseInt(process.env.MINT_QUOTE_TTL_SECONDS || '120', 10)
+);
+
+// Public mint route - the x402 resource of quotes and paid mints alike (the internal route never leaks)
+const MINT_ROUTE = '/api/mint';
+
+function getMintResource(req: Request): string {
+  return `${req.protocol}://${req.get('host')}${MINT_ROUTE}`;
+}
+
+/**
+ * Price of a mint request (single source for the 402 response, X-Payment-Options and verify requirements)
+ */
+function getMintPrice(recipientCount: number, pricePerMint: bigint): MintPrice {
+  return calculateMintPrice(recipientCount, pricePerMint, MINT_VOLUME_TIERS);
+}
+
+/**
+ * Priced payment options for a mint - token's own PAYMENT_TOKEN first, then every other accepted asset
+ * The token's PAYMENT_TOKEN goes to the token contract, other assets to the treasury
+ * @param quote Signed quote whose totals are honored instead of the current price
+ */
+async function getPricedPaymentOptions(
+  economics: TokenEconomics,
+  recipientCount: number,
+  resource: string,
+  quote?: MintQuotePayload
+): Promise<PricedPaymentOption[]> {
+  return (await paymentAssetRegistry.getPaymentOptions(economics)).map(option => {
+    let mintPrice = getMintPrice(recipientCount, option.pricePerMint);
+    const quotedAmount = quote?.amounts[option.asset.address.toLowerCase()];
+    if (quotedAmount !== undefined) {
+      mintPrice = { ...mintPrice, total: BigInt(quotedAmount) };
+    }
+
+    return {
+      ...option,
+      mintPrice,
+      requirements: buildPaymentRequirements({
+        network: PAYMENT_NETWORK,
+        resource,
+        payTo: option.payTo,
+        asset: option.asset,
+        mintPrice,
+      }),
+    };
+  });
+}
+
+function formatPaymentAmount(amount: bigint, decimals: number, tokenName: string): string {
+  return `${formatUnits(amount, decimals)} ${tokenName}`;
+}
 
 // Validate environment variables
 if (!process.env.MINTER_PRIVATE_KEY) {
@@ -51,25 +162,117 @@ console.log(`🔗 Using facilitator: ${FACILITATOR_API_URL}`);
 
 const account = privateKeyToAccount(process.env.MINTER_PRIVATE_KEY as Hex);
 
-// Payment Chain: BSC Mainnet
+// Payment Chain (PAYMENT_CHAIN)
 // Note: Payment verification is handled by local facilitator via HTTP API
 // No client needed here - facilitator will create its own clients
 
-// Mint Chain Clients (BSC Testnet) - for token minting
-// const mintPublicClient = createPublicClient({
-//   chain: MINT_CHAIN,
-//   transport: http(MINT_RPC_URL),
-// });
+// Mint Chain: batchMint is executed by MintExecutor using the minter account
+const mintExecutor = getMintExecutor({
+  privateKey: process.env.MINTER_PRIVATE_KEY as Hex,
+  chain: MINT_CHAIN,
+});
 
 // ==================== Token Capacity Manager ====================
 
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
-const tokenCapacityManager = new TokenCapacityManager(MINT_CHAIN, REDIS_URL);
-console.log(`✅ TokenCapacityManager initialized with Redis: ${REDIS_URL}`);
+const tokenCapacityManager = new TokenCapacityManager(
+  MINT_CHAIN,
+  REDIS_URL,
+  parseInt(process.env.CAPACITY_HOLD_TTL_MS || '600000', 10) // Unreleased holds expire after 10 minutes
+);
+console.log(`✅ TokenCapacityManager initialized on ${MINT_CHAIN.name} with Redis: ${REDIS_URL}`);
+
+// Per-block mintCount refresh for active tokens, shared across instances via Redis
+const MINT_COUNT_WATCHER_ENABLED = process.env.MINT_COUNT_WATCHER !== 'false';
+if (MINT_COUNT_WATCHER_ENABLED) {
+  tokenCapacityManager.setMintCountWatcher(getMintCountWatcher({ chain: MINT_CHAIN, redisUrl: REDIS_URL }));
+}
+
+// ==================== RPC Health ====================
+
+// Background probes of every RPC endpoint; lagging / failing endpoints are ejected from the pool
+const RPC_HEALTH_MONITOR_ENABLED = process.env.RPC_HEALTH_MONITOR !== 'false';
+if (RPC_HEALTH_MONITOR_ENABLED) {
+  getRpcHealthMonitor(getRpcPool(MINT_CHAIN));
+}
+
+// ==================== Token Registry ====================
+
+// Tokens created by the launchpad factory (TokenCreated events); mint and capacity routes refuse others
+const FACTORY_ADDRESS = process.env.FACTORY_ADDRESS;
+if (FACTORY_ADDRESS && !isAddress(FACTORY_ADDRESS)) {
+  throw new Error(`Invalid FACTORY_ADDRESS: ${FACTORY_ADDRESS}`);
+}
+const tokenRegistry: TokenRegistry | null = FACTORY_ADDRESS
+  ? getTokenRegistry({ chain: MINT_CHAIN, factoryAddress: FACTORY_ADDRESS as Address, redisUrl: REDIS_URL })
+  : null;
+if (!tokenRegistry) {
+  console.warn('⚠️ FACTORY_ADDRESS not set - token registry disabled, any token address is accepted');
+}
 
-const tokenDeadlineCache = new TokenDeadlineCache(MINT_CHAIN);
+const tokenDeadlineCache = new TokenDeadlineCache(MINT_CHAIN, REDIS_URL);
 console.log(`✅ TokenDeadlineCache initialized`);
 
+/**
+ * Load a registered token's immutable config (maxMintCount, deploymentDeadline) into the shared caches
+ * maxMintCount comes from the TokenCreated event; the deadline is read once and stored in Redis
+ */
+async function warmTokenConfig(token: RegisteredToken): Promise<void> {
+  try {
+    await Promise.all([
+      tokenCapacityManager.primeMaxMintCount(token.address, token.maxMintCount),
+      tokenDeadlineCache.getDeploymentDeadline(token.address),
+    ]);
+  } catch (error) {
+    console.error(`❌ Failed to warm token config for ${token.address}:`, errorMessage(error));
+  }
+}
+
+/**
+ * Warm config for the most recently created tokens (the ones likely to see a launch spike)
+ */
+async function warmRecentTokenConfig(limit: number): Promise<void> {
+  if (!tokenRegistry || limit <= 0) return;
+
+  try {
+    const tokens = (await tokenRegistry.listTokens())
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+
+    for (const token of tokens) {
+      await warmTokenConfig(token);
+    }
+    console.log(`🔥 Warmed token config for ${tokens.length} token(s)`);
+  } catch (error) {
+    console.error('❌ Failed to warm token config from registry:', errorMessage(error));
+  }
+}
+
+// New tokens are warmed as the registry indexes them (leader only; other instances read Redis)
+tokenRegistry?.on('token-registered', (token: RegisteredToken) => {
+  warmTokenConfig(token);
+});
+
+const tokenInfoService = new TokenInfoService(MINT_CHAIN, parseInt(process.env.TOKEN_INFO_TTL_MS || '5000', 10));
+const launchPhaseGate = new LaunchPhaseGate(tokenInfoService);
+if (MINT_COUNT_WATCHER_ENABLED) {
+  // Re-evaluate the launch phase as soon as another mint lands
+  getMintCountWatcher().on('mint-count-changed', (tokenAddress: Address) => launchPhaseGate.invalidate(tokenAddress));
+}
+
+// Live capacity for SSE clients: one Redis subscription per token, shared by all its streams
+const capacityStreamHub = getCapacityStreamHub({
+  redisUrl: REDIS_URL,
+  loadSnapshot: async (tokenAddress: Address) => ({
+    tokenAddress,
+    capacity: formatCapacity(await tokenCapacityManager.getCapacityStatus(tokenAddress)),
+  }),
+  refreshInterval: parseInt(process.env.CAPACITY_STREAM_REFRESH_MS || '15000', 10),
+});
+
+const tokenEconomicsResolver = new TokenEconomicsResolver(MINT_CHAIN, REDIS_URL);
+console.log(`✅ TokenEconomicsResolver initialized`);
+
 // ==================== Abuse Detection ====================
 
 import { AbuseDetector, createIdentifier } from './utils/abuseDetector.js';
@@ -83,14 +286,46 @@ console.log(`🛡️  AbuseDetector initialized`);
 
 // ====================  Payment Verification ====================
 
+/**
+ * Facilitator /verify and /settle response (its format differs slightly from the x402 standard)
+ */
+interface FacilitatorResponse {
+  isValid?: boolean;
+  invalidReason?: string;
+  success?: boolean;
+  transaction?: string;
+  transactionId?: string;
+  transactionHash?: string;
+  network?: string;
+  payer?: string;
+  message?: string;
+  error?: string;
+  errorMessage?: string;
+  errorReason?: string;
+  reason?: string;
+  details?: unknown;
+  activeTransactions?: number;
+  maxCapacity?: number;
+}
+
+/**
+ * Facilitator rejection, carrying the fields of its error response
+ */
+interface FacilitatorError extends Error {
+  reason?: string;
+  details?: FacilitatorResponse;
+  activeTransactions?: number;
+  maxCapacity?: number;
+}
+
 /**
  * Verify payment using Local Facilitator HTTP API
  */
-const verify = async (paymentPayload: PaymentPayload, paymentRequirements: any) => {
+const verify = async (paymentPayload: PaymentPayload, paymentRequirements: PaymentRequirements) => {
   const requestTime = new Date().toISOString();
   console.log(`\n⏰ [${requestTime}] Facilitator Verify Request`);
-  console.log(`   From: ${(paymentPayload.payload as any).authorization.from}`);
-  console.log(`   Nonce: ${(paymentPayload.payload as any).authorization.nonce}`);
+  console.log(`   From: ${paymentPayload.payload.authorization.from}`);
+  console.log(`   Nonce: ${paymentPayload.payload.authorization.nonce}`);
 
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 30000); // 30 second timeout
@@ -109,7 +344,7 @@ const verify = async (paymentPayload: PaymentPayload, paymentRequirements: any)
     });
     clearTimeout(timeout);
     
-    const responseData = await response.json() as any;
+    const responseData = await response.json() as FacilitatorResponse;
 
   if (!response.ok) {
     console.error(`❌ [${requestTime}] Facilitator Verify Failed:`);
@@ -117,7 +352,7 @@ const verify = async (paymentPayload: PaymentPayload, paymentRequirements: any)
     console.error(`   Error: ${JSON.stringify(responseData, null, 2)}`);
     // Extract error message from the correct field (facilitator uses 'message', not 'errorMessage')
     const errorMessage = responseData.message || responseData.error || responseData.errorMessage || `Verify failed: ${response.statusText}`;
-    const error: any = new Error(errorMessage);
+    const error: FacilitatorError = new Error(errorMessage);
     // Preserve additional error details for proper handling
     error.reason = responseData.reason;
     error.details = responseData;
@@ -126,9 +361,9 @@ const verify = async (paymentPayload: PaymentPayload, paymentRequirements: any)
 
   console.log(`✅ [${requestTime}] Facilitator Verify Success`);
   return responseData;
-  } catch (error: any) {
+  } catch (error) {
     clearTimeout(timeout);
-    if (error.name === 'AbortError') {
+    if ((error as Error).name === 'AbortError') {
       console.error(`⏱️ [${requestTime}] Facilitator Verify Timeout after 30s`);
       throw new Error('Facilitator verify timeout');
     }
@@ -140,14 +375,14 @@ const verify = async (paymentPayload: PaymentPayload, paymentRequirements: any)
  * Settle payment using Local Facilitator HTTP API (deprecated - now using batch settle)
  * Kept for reference and potential fallback
  */
-// @ts-ignore - kept for reference
+// @ts-expect-error - kept for reference (unused)
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-const settle = async (paymentPayload: PaymentPayload, paymentRequirements: any) => {
+const settle = async (paymentPayload: PaymentPayload, paymentRequirements: PaymentRequirements) => {
   const requestTime = new Date().toISOString();
   console.log(`\n⏰ [${requestTime}] Facilitator Settle Request`);
-  console.log(`   From: ${(paymentPayload.payload as any).authorization.from}`);
-  console.log(`   Nonce: ${(paymentPayload.payload as any).authorization.nonce}`);
-  console.log(`   Amount: ${(paymentPayload.payload as any).authorization.value}`);
+  console.log(`   From: ${paymentPayload.payload.authorization.from}`);
+  console.log(`   Nonce: ${paymentPayload.payload.authorization.nonce}`);
+  console.log(`   Amount: ${paymentPayload.payload.authorization.value}`);
 
   // Retry configuration
   const maxRetries = 3;
@@ -172,7 +407,7 @@ const settle = async (paymentPayload: PaymentPayload, paymentRequirements: any)
       });
       clearTimeout(timeout);
 
-      const responseData = await response.json() as any;
+      const responseData = await response.json() as FacilitatorResponse;
 
       if (!response.ok) {
         // Check if it's a timeout error
@@ -190,7 +425,7 @@ const settle = async (paymentPayload: PaymentPayload, paymentRequirements: any)
         console.error(`   Error: ${JSON.stringify(responseData, null, 2)}`);
         // Extract error message from the correct field (facilitator uses 'message', not 'errorMessage')
         const errorMessage = responseData.message || responseData.error || responseData.errorMessage || `Settle failed: ${response.statusText}`;
-        const error: any = new Error(errorMessage);
+        const error: FacilitatorError = new Error(errorMessage);
         // Preserve additional error details for proper handling
         error.reason = responseData.reason;
         error.details = responseData;
@@ -203,11 +438,11 @@ const settle = async (paymentPayload: PaymentPayload, paymentRequirements: any)
       console.log(`   Transaction: ${responseData.transaction}`);
       return responseData;
       
-    } catch (error: any) {
+    } catch (error) {
       clearTimeout(timeout);
       
       // Handle timeout errors
-      if (error.name === 'AbortError') {
+      if ((error as Error).name === 'AbortError') {
         console.error(`⏱️ [${requestTime}] Facilitator Settle Timeout on attempt ${attempt}/${maxRetries}`);
         if (attempt < maxRetries) {
           await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
@@ -218,7 +453,7 @@ const settle = async (paymentPayload: PaymentPayload, paymentRequirements: any)
       
       // Network error or other exceptions
       if (attempt < maxRetries) {
-        console.warn(`🔄 [${requestTime}] Settle error on attempt ${attempt}/${maxRetries}: ${error.message}`);
+        console.warn(`🔄 [${requestTime}] Settle error on attempt ${attempt}/${maxRetries}: ${errorMessage(error)}`);
         console.warn(`   Retrying in ${retryDelay * attempt}ms...`);
         await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
         continue;
@@ -229,13 +464,13 @@ const settle = async (paymentPayload: PaymentPayload, paymentRequirements: any)
   }
 };
 
-console.log(`\n🔗 x402 Payment Architecture (Same-Chain Payment & Mint)`);
-console.log(`📍 Payment Chain: ${PAYMENT_CHAIN.name} (ChainID: ${PAYMENT_CHAIN.id})`);
+console.log(`\n🔗 x402 Payment Architecture (${PAYMENT_CHAIN.id === MINT_CHAIN.id ? 'Same-Chain' : 'Cross-Chain'} Payment & Mint)`);
+console.log(`📍 Payment Chain: ${PAYMENT_CHAIN.name} (ChainID: ${PAYMENT_CHAIN.id}, x402 network: ${PAYMENT_NETWORK})`);
 console.log(`📍 Mint Chain: ${MINT_CHAIN.name} (ChainID: ${MINT_CHAIN.id})`);
 console.log(`🔑 Backend wallet address: ${account.address}`);
-console.log(`💰 Payment Token (BSC Mainnet): ${PAYMENT_TOKEN_NAME} (${PAYMENT_TOKEN_ADDRESS})`);
-console.log(`🎯 Mint Token: Dynamic (specified per request on BSC Testnet)`);
-console.log(`💵 Mint price: 0.1 WUSDT`);
+console.log(`💰 Payment Token (${PAYMENT_CHAIN.name}): ${PAYMENT_TOKEN_NAME} (${PAYMENT_TOKEN_ADDRESS})`);
+console.log(`🎯 Mint Token: Dynamic (specified per request on ${MINT_CHAIN.name})`);
+console.log(`💵 Mint price: paymentSeed per recipient, read from each token${MINT_VOLUME_TIERS.length > 0 ? ` (volume tiers: ${process.env.MINT_VOLUME_TIERS})` : ''}`);
 console.log(`🤝 x402 Facilitator: Local HTTP API (${FACILITATOR_API_URL})\n`);
 
 // ==================== Express App ====================
@@ -260,9 +495,9 @@ app.use(
     },
     credentials: true, // Allow cookies and credentials
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Payment', 'x-payment'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Payment', 'x-payment', 'Prefer', 'Idempotency-Key', 'X-Mint-Quote'],
     // Expose x402 headers to frontend (must match actual header names - lowercase)
-    exposedHeaders: ['x-payment-options', 'x-payment-response', 'X-Payment-Options', 'X-Payment-Response'],
+    exposedHeaders: ['x-payment-options', 'x-payment-response', 'X-Payment-Options', 'X-Payment-Response', 'X-Request-Id', 'Location', 'Preference-Applied', 'Idempotent-Replayed'],
   })
 );
 
@@ -278,8 +513,13 @@ app.use((req, _res, next) => {
   next();
 });
 
-// Note: Deduplication disabled - x402 protocol has built-in replay protection via nonce
-// Address cooldown (3s) is sufficient to prevent abuse
+// Idempotency: retried X-PAYMENT submissions (same authorization nonce + payer, or same
+// payer + Idempotency-Key header) attach to / replay the original outcome instead of settling again
+const idempotencyMiddleware = deduplicationMiddleware(REDIS_URL, {
+  inFlightTtlMs: parseInt(process.env.IDEMPOTENCY_IN_FLIGHT_TTL_MS || '600000', 10),
+  resultTtlMs: parseInt(process.env.IDEMPOTENCY_RESULT_TTL_MS || '86400000', 10),
+  waitTimeoutMs: parseInt(process.env.IDEMPOTENCY_WAIT_TIMEOUT_MS || '420000', 10),
+});
 
 // ==================== Helper Functions ====================
 
@@ -300,6 +540,71 @@ async function withTimeout<T>(
   return Promise.race([promise, timeoutPromise]);
 }
 
+/**
+ * Refuse tokens that weren't created by the launchpad factory (payments are sent to the token address)
+ * @returns false when an error response has been sent
+ */
+async function ensureRegisteredToken(tokenAddress: string, res: Response): Promise<boolean> {
+  if (!tokenRegistry) {
+    return true; // Registry disabled
+  }
+
+  try {
+    if (await tokenRegistry.isRegistered(tokenAddress)) {
+      return true;
+    }
+    console.log(`❌ Unknown token ${tokenAddress}, returning 404`);
+    res.status(404).json({
+      error: 'Unknown token',
+      message: 'Token was not created by the launchpad factory',
+      tokenAddress,
+    });
+  } catch (error) {
+    console.error(`❌ Token registry lookup failed for ${tokenAddress}:`, errorMessage(error));
+    res.status(503).json({
+      error: 'Token registry unavailable',
+      message: 'Unable to verify the token, please retry',
+    });
+  }
+  return false;
+}
+
+/**
+ * Capacity info as returned by the capacity endpoints
+ */
+function formatCapacity(capacityInfo: TokenCapacityInfo) {
+  return {
+    max: capacityInfo.maxMintCount,
+    current: capacityInfo.currentMintCount,
+    pending: capacityInfo.pendingCount,
+    available: capacityInfo.availableSlots,
+    percentage: Math.round((capacityInfo.currentMintCount / capacityInfo.maxMintCount) * 100),
+  };
+}
+
+/**
+ * Check whether the client asked for asynchronous processing (RFC 7240 `Prefer: respond-async`)
+ */
+function prefersRespondAsync(req: Request): boolean {
+  const prefer = req.get('prefer');
+  if (!prefer) return false;
+  return prefer
+    .split(',')
+    .some(preference => preference.trim().toLowerCase() === 'respond-async');
+}
+
+/**
+ * Parse a time query parameter (unix milliseconds or ISO 8601)
+ * @returns undefined if absent, null if malformed
+ */
+function parseTimeParam(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  if (typeof value !== 'string') return null;
+
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(timestamp) ? timestamp : null;
+}
+
 
 // ==================== API Endpoints ====================
 
@@ -313,18 +618,29 @@ const healthCheckHandler = (_req: Request, res: Response) => {
     backend: account.address,
     paymentChain: PAYMENT_CHAIN.name,
     paymentChainId: PAYMENT_CHAIN.id,
+    paymentNetwork: PAYMENT_NETWORK,
     mintChain: MINT_CHAIN.name,
     mintChainId: MINT_CHAIN.id,
     mintContract: 'Dynamic (specified per request)',
     paymentToken: PAYMENT_TOKEN_ADDRESS,
     paymentTokenName: PAYMENT_TOKEN_NAME,
-    mintPrice: '0.1 WUSDT',
+    mintPrice: 'Per token (paymentSeed per recipient)',
+    mintVolumeTiers: MINT_VOLUME_TIERS,
+    paymentTreasury: PAYMENT_TREASURY_ADDRESS ?? null,
+    paymentAssets: paymentAssetRegistry.list().map(asset => ({
+      address: asset.address,
+      name: asset.name,
+      version: asset.version,
+      pricePerMint: asset.price ?? 'paymentSeed',
+    })),
     facilitator: FACILITATOR_API_URL,
-    mode: 'x402 Payment (BSC Mainnet WUSDT → BSC Testnet Mint)',
+    mode: `x402 Payment (${PAYMENT_CHAIN.name} ${PAYMENT_TOKEN_NAME} → ${MINT_CHAIN.name} Mint)`,
     features: {
       capacityManager: 'enabled',
       batchMinting: 'enabled',
       nonceProtection: 'x402-eip3009',
+      tokenRegistry: tokenRegistry ? 'enabled' : 'disabled',
+      rpcHealthMonitor: RPC_HEALTH_MONITOR_ENABLED ? 'enabled' : 'disabled',
     },
   });
 };
@@ -335,6 +651,289 @@ const healthCheckHandler = (_req: Request, res: Response) => {
 app.get('/health', healthCheckHandler);
 app.get('/api/health', healthCheckHandler);
 
+/**
+ * Context of a verified payment whose capacity has been reserved
+ */
+interface PaidMintContext {
+  requestId: string;
+  tokenAddress: Address;
+  recipients: Address[];
+  mintKeys: Hex[];           // Derived from the authorization; the precheck simulated with these
+  decodedPayment: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+  reservationId: string;     // Capacity hold to release once the mint confirms or fails
+  paymentTxHash?: string;    // Set once settlement confirms (reported if the mint step throws)
+}
+
+/**
+ * Final HTTP outcome of a paid mint (sent directly in sync mode, recorded only in async mode)
+ */
+interface MintOutcome {
+  statusCode: number;
+  body: Record<string, unknown>;
+  paymentResponseHeader?: string;
+}
+
+/**
+ * Settle a verified payment and execute the mint (Steps 6-7)
+ * Releases the reserved capacity once settlement fails or the mint confirms/fails
+ */
+async function settleAndMint(context: PaidMintContext): Promise<MintOutcome> {
+  const { requestId, tokenAddress, recipients, mintKeys, decodedPayment, paymentRequirements, reservationId } = context;
+  const mintJobStore = getMintJobStore();
+
+  // ==================== Step 6: Settle Payment (after capacity check) ====================
+
+  console.log(`💰 Settling payment with facilitator (using batch queue)...`);
+
+  let settleResponse: FacilitatorResponse;
+  try {
+    console.log(`   📡 Adding to batch settle queue...`);
+    
+    // Use batch settle manager
+    const batchManager = getBatchSettleManager(FACILITATOR_API_URL);
+    const settleResult = await withTimeout(
+      batchManager.addToQueue(requestId, decodedPayment, paymentRequirements, () => {
+        // Batch picked up by the facilitator
+        mintJobStore.updateJob(requestId, { status: 'settling' });
+      }),
+      180000, // 3 minute timeout (blockchain transaction confirmation needs more time)
+      'Batch settle'
+    );
+    
+    // Convert to settle response format
+    settleResponse = {
+      success: true,
+      transaction: settleResult.transaction || '',
+      network: PAYMENT_NETWORK,
+      payer: decodedPayment.payload.authorization.from,
+    };
+    
+    console.log(`   ✅ Batch settle completed`);
+    console.log(`   📊 Queue status:`, batchManager.getStatus());
+  } catch (caught) {
+    const error = caught as FacilitatorError;
+    console.error(`   ❌ Batch settle error:`, errorMessage(error));
+    console.error(`   ❌ Error reason:`, error.reason);
+    console.error(`   ❌ Error details:`, error.details);
+
+    await mintJobStore.updateJob(requestId, {
+      status: 'failed',
+      error: errorMessage(error),
+      errorReason: error.reason || 'settle_failed',
+    });
+
+    // Handle capacity exceeded error specially
+    if (error.reason === 'mempool_capacity_exceeded') {
+      // Release reserved capacity
+      await tokenCapacityManager.releaseCapacity(tokenAddress, reservationId);
+      console.log(`🔓 Released reserved capacity due to mempool_capacity_exceeded`);
+      return { statusCode: 400, body: {
+        error: 'Payment settlement failed',
+        reason: 'mempool_capacity_exceeded',
+        message: errorMessage(error),
+        details: {
+          activeTransactions: error.activeTransactions,
+          maxCapacity: error.maxCapacity,
+          facilitator: FACILITATOR_API_URL
+        }
+      } };
+    }
+
+    // Handle chain query failure
+    if (error.reason === 'chain_query_failed') {
+      // Release reserved capacity
+      await tokenCapacityManager.releaseCapacity(tokenAddress, reservationId);
+      console.log(`🔓 Released reserved capacity due to chain_query_failed`);
+      return { statusCode: 503, body: {
+        error: 'Payment settlement failed',
+        reason: 'chain_query_failed',
+        message: errorMessage(error),
+        facilitator: FACILITATOR_API_URL,
+      } };
+    }
+
+    // Release reserved capacity for any other error
+    await tokenCapacityManager.releaseCapacity(tokenAddress, reservationId);
+    console.log(`🔓 Released reserved capacity due to settle error`);
+    return { statusCode: 500, body: {
+      error: 'Failed to settle payment with facilitator',
+      reason: error.reason,
+      details: errorMessage(error),
+      facilitator: FACILITATOR_API_URL,
+    } };
+  }
+
+  // Check for explicit failure (facilitator may return different response structures)
+  if (settleResponse.success === false || settleResponse.error) {
+    console.error(`❌ Payment settlement failed: ${settleResponse.errorReason || settleResponse.reason || settleResponse.error}`);
+    await mintJobStore.updateJob(requestId, {
+      status: 'failed',
+      error: settleResponse.message || settleResponse.error || 'Payment settlement failed',
+      errorReason: settleResponse.errorReason || settleResponse.reason || 'settle_failed',
+    });
+    // Release reserved capacity
+    await tokenCapacityManager.releaseCapacity(tokenAddress, reservationId);
+    console.log(`🔓 Released reserved capacity due to settlement failure`);
+    return { statusCode: 402, body: {
+      error: 'Payment settlement failed',
+      reason: settleResponse.errorReason || settleResponse.reason,
+      message: settleResponse.message || 'Payment must be settled before minting',
+      details: settleResponse.details
+    } };
+  }
+
+  // Check if transaction ID is present (indicating success)
+  if (!settleResponse.transaction && !settleResponse.transactionId && !settleResponse.transactionHash) {
+    console.error(`❌ Payment settlement response missing transaction ID`);
+    await mintJobStore.updateJob(requestId, {
+      status: 'failed',
+      error: 'Settlement response missing transaction ID',
+      errorReason: 'invalid_settle_response',
+    });
+    // Release reserved capacity
+    await tokenCapacityManager.releaseCapacity(tokenAddress, reservationId);
+    console.log(`🔓 Released reserved capacity due to invalid settlement response`);
+    return { statusCode: 500, body: {
+      error: 'Invalid settlement response',
+      message: 'Settlement response missing transaction ID',
+      response: settleResponse
+    } };
+  }
+
+  // Note: Payment is already confirmed because we use waitUntil: 'confirmed' in facilitator config
+  const paymentTxId = settleResponse.transaction || settleResponse.transactionId || settleResponse.transactionHash;
+  console.log(`✅ Payment settled and confirmed on-chain`);
+  console.log(`   Transaction ID: ${paymentTxId}`);
+
+  context.paymentTxHash = paymentTxId;
+  await mintJobStore.updateJob(requestId, {
+    status: 'settled',
+    paymentTxHash: paymentTxId,
+  });
+
+  // ==================== Step 7: Execute Mint ====================
+  // Reserved capacity stays held until the mint confirms or fails
+
+  const mintResult = await mintExecutor.executeMint(
+    requestId,
+    tokenAddress,
+    recipients,
+    mintKeys,
+    paymentTxId as Hex
+  );
+
+  // The hold is only released once the refreshed mintCount is visible to every replica.
+  // A mint sent without a receipt may still land, so its hold stays until it expires.
+  launchPhaseGate.invalidate(tokenAddress);
+  if (mintResult.transaction && mintResult.blockNumber === undefined) {
+    console.warn(`⏳ Keeping reserved capacity until it expires - mint ${mintResult.transaction} has no receipt`);
+  } else {
+    await tokenCapacityManager.releaseAfterMint(tokenAddress, reservationId, mintResult.blockNumber);
+  }
+
+  // Payment already settled - always return the payment response header
+  const paymentResponseHeader = settleResponseHeader(settleResponse as SettleResponse);
+
+  if (mintResult.pending) {
+    // Not a failure - the mint may still land; reconciliation resolves the job from its receipt
+    console.warn(`⏳ [${requestId}] Mint ${mintResult.transaction} sent but not confirmed yet: ${mintResult.error}`);
+    await mintJobStore.updateJob(requestId, {
+      status: 'mint_pending',
+      mintTxHash: mintResult.transaction,
+      error: mintResult.error,
+      errorReason: mintResult.reason,
+    });
+    const statusUrl = `/api/mint-status/${requestId}`;
+    return { statusCode: 202, paymentResponseHeader, body: {
+      success: true,
+      requestId,
+      status: 'mint_pending',
+      statusUrl,
+      eventsUrl: `${statusUrl}/events`,
+      paymentTxHash: paymentTxId,
+      mintTxHash: mintResult.transaction,
+      message: 'Payment settled and mint transaction sent, its confirmation is still pending',
+    } };
+  }
+
+  if (!mintResult.success) {
+    console.error(`❌ [${requestId}] Mint failed after payment settled: ${mintResult.error}`);
+    await mintJobStore.updateJob(requestId, {
+      status: 'failed',
+      mintTxHash: mintResult.transaction,
+      error: mintResult.error,
+      errorReason: mintResult.reason,
+    });
+    return { statusCode: 500, paymentResponseHeader, body: {
+      error: 'Mint failed after payment settled',
+      reason: mintResult.reason,
+      message: mintResult.error,
+      requestId,
+      paymentTxHash: paymentTxId,
+      mintTxHash: mintResult.transaction,
+    } };
+  }
+
+  await mintJobStore.updateJob(requestId, {
+    status: 'minted',
+    mintTxHash: mintResult.transaction,
+  });
+  console.log(`✅ [${requestId}] Mint completed: ${mintResult.transaction}`);
+
+  return { statusCode: 200, paymentResponseHeader, body: {
+    success: true,
+    requestId,
+    paymentTxHash: paymentTxId,
+    paymentChain: PAYMENT_CHAIN.name,
+    paymentChainId: PAYMENT_CHAIN.id,
+    mintTxHash: mintResult.transaction,
+    mintChain: MINT_CHAIN.name,
+    mintChainId: MINT_CHAIN.id,
+    recipients: recipients.length,
+    message: 'Payment settled and tokens minted successfully',
+  } };
+}
+
+/**
+ * Outcome of a paid mint whose settle/mint step threw unexpectedly
+ * Releases the capacity hold and marks the job failed; never throws
+ */
+async function failPaidMint(context: PaidMintContext, error: unknown): Promise<MintOutcome> {
+  const { requestId, tokenAddress, reservationId, paymentTxHash } = context;
+  console.error(`❌ [${requestId}] Paid mint error${paymentTxHash ? ' after payment settled' : ''}:`, error);
+
+  try {
+    await tokenCapacityManager.releaseCapacity(tokenAddress, reservationId);
+  } catch (releaseError) {
+    console.error(`❌ [${requestId}] Failed to release capacity hold ${reservationId}:`, errorMessage(releaseError));
+  }
+  try {
+    await getMintJobStore().updateJob(requestId, {
+      status: 'failed',
+      error: errorMessage(error),
+      errorReason: 'internal_error',
+    });
+  } catch (storeError) {
+    console.error(`❌ [${requestId}] Failed to record mint failure:`, errorMessage(storeError));
+  }
+
+  if (paymentTxHash) {
+    return { statusCode: 500, body: {
+      error: 'Mint failed after payment settled',
+      reason: 'internal_error',
+      message: IS_PRODUCTION ? undefined : errorMessage(error),
+      requestId,
+      paymentTxHash,
+    } };
+  }
+  return { statusCode: 500, body: {
+    error: 'Failed to execute mint',
+    requestId,
+    details: IS_PRODUCTION ? undefined : errorMessage(error),
+  } };
+}
+
 /**
  * Shared mint handler function (used by both public and hidden endpoints)
  * @param skipRateLimit - If true, skip the 3s/10 requests rate limit check
@@ -346,6 +945,10 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
   console.log(`🎯 [${handlerRequestId}] Request body:`, JSON.stringify(req.body));
   console.log(`🎯 [${handlerRequestId}] Has X-PAYMENT header:`, !!req.headers['x-payment']);
 
+  // Expose request ID so clients can look up the job via /api/mint-status/:requestId
+  res.setHeader('X-Request-Id', handlerRequestId);
+  const mintJobStore = getMintJobStore();
+
   try {
     // ==================== Step 0: Whitelist Check (if required) ====================
     if (requireWhitelist) {
@@ -367,7 +970,7 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
       console.log(`✅ [${handlerRequestId}] Whitelist check passed: ${identifier}`);
     }
 
-    const { recipients, tokenAddress: rawTokenAddress } = req.body;
+    const { recipients: rawRecipients, tokenAddress: rawTokenAddress } = req.body;
     const paymentHeader = req.headers['x-payment'] as string | undefined;
 
     // Trim tokenAddress to prevent whitespace/newline issues
@@ -381,27 +984,31 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
       });
     }
 
-    if (!recipients || !Array.isArray(recipients)) {
-      console.log(`❌ [${handlerRequestId}] Invalid recipients, returning 400`);
+    if (!isAddress(tokenAddress)) {
+      console.log(`❌ [${handlerRequestId}] Invalid tokenAddress, returning 400`);
       return res.status(400).json({
-        error: 'Missing required field: recipients',
+        error: 'Invalid tokenAddress',
       });
     }
 
-    if (recipients.length === 0 || recipients.length > 100) {
-      console.log(`❌ [${handlerRequestId}] Invalid recipients length: ${recipients.length}, returning 400`);
+    if (!(await ensureRegisteredToken(tokenAddress, res))) {
+      return;
+    }
+
+    if (!rawRecipients || !Array.isArray(rawRecipients)) {
+      console.log(`❌ [${handlerRequestId}] Invalid recipients, returning 400`);
       return res.status(400).json({
-        error: 'Recipients must be between 1 and 100 addresses',
+        error: 'Missing required field: recipients',
       });
     }
 
-    // ==================== Step 0.5: Check Token Deployment Deadline ====================
+    // ==================== Step 0.5: Launch Phase Gate ====================
+    // Liquidity deployed, deadline passed or fully minted - each with its own 410 reason
     try {
-      const deadline = await tokenDeadlineCache.getDeploymentDeadline(tokenAddress as Address);
-      const now = BigInt(Math.floor(Date.now() / 1000));
-      const difference = Number(deadline - now); // Remaining seconds (matches frontend logic)
-      
-      if (difference <= 0) {
+      const launchPhase = await launchPhaseGate.check(tokenAddress as Address);
+      const difference = launchPhase.status.secondsUntilDeadline; // Remaining seconds (matches frontend logic)
+
+      if (!launchPhase.open && launchPhase.reason === 'deadline_passed') {
         // Token expired - record abuse and ban if > 5 requests
         const clientIP = (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() || 
                          (req.headers['x-real-ip'] as string) || 
@@ -416,6 +1023,7 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
           // IP banned for repeated expired token requests - silent rejection
           return res.status(410).json({
             error: 'Token deployment period has ended',
+            reason: launchPhase.reason,
             tokenAddress,
           });
         }
@@ -423,59 +1031,138 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
         // First few requests - return error without verbose logging
         return res.status(410).json({
           error: 'Token deployment period has ended',
+          reason: launchPhase.reason,
           message: `This token's deployment deadline has passed`,
           tokenAddress,
           remainingTime: difference,
         });
       }
+
+      if (!launchPhase.open && launchPhase.reason === 'liquidity_deployed') {
+        console.log(`❌ [${handlerRequestId}] Liquidity deployed for ${tokenAddress}, returning 410`);
+        return res.status(410).json({
+          error: 'Minting has ended',
+          reason: launchPhase.reason,
+          message: 'Liquidity has been deployed for this token',
+          tokenAddress,
+        });
+      }
+
+      if (!launchPhase.open) {
+        console.log(`❌ [${handlerRequestId}] Token ${tokenAddress} is fully minted, returning 410`);
+        return res.status(410).json({
+          error: 'Token is fully minted',
+          reason: launchPhase.reason,
+          message: 'All mint slots of this token have been minted',
+          tokenAddress,
+          mintCount: launchPhase.state.mintCount,
+          maxMintCount: launchPhase.state.maxMintCount,
+        });
+      }
       
       const remainingMinutes = Math.floor(difference / 60);
-      console.log(`✅ Token deadline OK: ${remainingMinutes} minutes remaining`);
-    } catch (error: any) {
-      console.error(`❌ Failed to check deployment deadline:`, error.message);
-      // If we can't check deadline, continue anyway (fail open)
+      console.log(`✅ Launch phase open: ${remainingMinutes} minutes remaining`);
+    } catch (error) {
+      console.error(`❌ Failed to check launch phase:`, errorMessage(error));
+      // If we can't check the launch phase, continue anyway (fail open)
+    }
+
+    // A token whose asset/price can't be read is never charged the default terms
+    let economics: TokenEconomics;
+    try {
+      economics = await tokenEconomicsResolver.getTokenEconomics(tokenAddress as Address);
+    } catch (error) {
+      console.log(`❌ [${handlerRequestId}] ${errorMessage(error)}, returning 503`);
+      return res.status(503).json({
+        error: 'Pricing unavailable',
+        reason: 'pricing_unavailable',
+        message: 'Payment terms for this token could not be read from chain. Retry shortly.',
+      });
+    }
+
+    // ==================== Step 0.6: Validate & Normalize Recipients ====================
+    const recipientValidation = validateRecipients(rawRecipients, {
+      maxRecipients: 100,
+      tokenAddress,
+      paymentTokens: [economics.paymentToken, ...paymentAssetRegistry.list().map(asset => asset.address)],
+    });
+    if (!recipientValidation.valid) {
+      console.log(`❌ [${handlerRequestId}] ${recipientValidation.error} (${recipientValidation.errors.length} invalid entries), returning 400`);
+      return res.status(400).json({
+        error: recipientValidation.error,
+        details: recipientValidation.errors,
+      });
+    }
+    // Checksummed, de-duplicated list - pricing, capacity and batchMint all use this
+    const recipients = recipientValidation.recipients;
+    if (recipientValidation.duplicates.length > 0) {
+      console.log(`   Dropped ${recipientValidation.duplicates.length} duplicate recipients (indexes ${recipientValidation.duplicates.join(', ')})`);
+    }
+    // ==================== Step 0.7: Apply Referenced Quote ====================
+    // A quote from GET /api/mint/quote locks in its price until it expires
+    const quoteToken = req.get('x-mint-quote') || req.body.quote;
+    let quote: MintQuotePayload | undefined;
+    if (quoteToken) {
+      try {
+        quote = mintQuoteSigner.verify(String(quoteToken));
+      } catch (error) {
+        console.log(`❌ [${handlerRequestId}] ${errorMessage(error)}, returning 400`);
+        return res.status(400).json({
+          error: errorMessage(error),
+          reason: errorCode(error) === 'QUOTE_EXPIRED' ? 'quote_expired' : 'invalid_quote',
+        });
+      }
+
+      if (quote.tokenAddress !== tokenAddress.toLowerCase() || quote.recipients !== recipients.length) {
+        console.log(`❌ [${handlerRequestId}] Quote ${quote.quoteId} does not match request, returning 400`);
+        return res.status(400).json({
+          error: 'Quote does not match request',
+          reason: 'quote_mismatch',
+          quote: { tokenAddress: quote.tokenAddress, recipients: quote.recipients },
+        });
+      }
+      console.log(`   Using quote ${quote.quoteId} (expires ${new Date(quote.expiresAt * 1000).toISOString()})`);
     }
 
+    const paymentOptions = await getPricedPaymentOptions(economics, recipients.length, getMintResource(req), quote);
+    const primaryOption = paymentOptions[0];
+
     // ==================== Step 1: Check for Payment ====================
 
     if (!paymentHeader) {
       // No payment provided - Return 402 Payment Required
       console.log(`💳 [${handlerRequestId}] Payment required for mint request`);
-      console.log(`   Mint Token (BSC Testnet): ${tokenAddress}`);
+      console.log(`   Mint Token (${MINT_CHAIN.name}): ${tokenAddress}`);
       console.log(`   Recipients: ${recipients.length}`);
 
-      // Build x402 payment requirements
-      // Payment goes to the token contract address
-      const paymentRequirements = {
-        payTo: tokenAddress as Address,
-        scheme: 'exact' as const,
-        network: 'bsc', // BSC Mainnet
-        token: PAYMENT_TOKEN_ADDRESS as Address,
-        amount: MINT_PRICE_USDT.toString(),
-      };
-
-      // Return 402 Payment Required with X-PAYMENT-OPTIONS header
+      // Legacy X-PAYMENT-OPTIONS header (primary option only), kept for existing clients
       // Format: scheme="exact", network="bsc", token="0x...", payee="0x...", amount="1000000000000000"
-      const paymentOptionsHeader = `scheme="${paymentRequirements.scheme}", network="${paymentRequirements.network}", token="${paymentRequirements.token}", payee="${paymentRequirements.payTo}", amount="${paymentRequirements.amount}"`;
+      const primaryRequirements = primaryOption.requirements;
+      const paymentOptionsHeader = `scheme="${primaryRequirements.scheme}", network="${primaryRequirements.network}", token="${primaryRequirements.asset}", payee="${primaryRequirements.payTo}", amount="${primaryRequirements.maxAmountRequired}"`;
 
       console.log(`📤 [${handlerRequestId}] Setting X-Payment-Options header: ${paymentOptionsHeader}`);
       res.setHeader('X-Payment-Options', paymentOptionsHeader);
 
       console.log(`📤 [${handlerRequestId}] Response headers:`, res.getHeaders());
 
+      // Unpaid 402 jobs are purged after MINT_JOB_UNPAID_RETENTION_HOURS (the paid retry is a new request)
+      await mintJobStore.createJob({
+        requestId: handlerRequestId,
+        status: 'payment_required',
+        tokenAddress,
+        recipients,
+        amount: primaryOption.mintPrice.total,
+        paymentAsset: primaryOption.asset.address,
+        paymentDecimals: primaryOption.asset.decimals,
+      });
+
       console.log(`📤 [${handlerRequestId}] Returning 402 Payment Required`);
       return res.status(402).json({
-        error: 'Payment required',
-        message: 'Please include X-PAYMENT header with signed authorization',
-        paymentRequired: {
-          price: '10 USD4',
-          amount: MINT_PRICE_USDT.toString(), // Raw amount for x402 client
-          payTo: tokenAddress,
-          token: PAYMENT_TOKEN_ADDRESS,
-          tokenName: PAYMENT_TOKEN_NAME,
-          tokenVersion: '1', // EIP-712 domain version
-          network: 'bsc',
-        },
+        ...buildPaymentRequiredResponse(
+          'X-PAYMENT header is required',
+          paymentOptions.map(option => option.requirements),
+        ),
+        requestId: handlerRequestId,
       });
     }
 
@@ -489,30 +1176,31 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
     try {
       decodedPayment = exact.evm.decodePayment(paymentHeader);
       console.log(`   ✅ Payment header decoded successfully`);
-    } catch (error: any) {
-      console.error(`   ❌ Failed to decode payment header:`, error.message);
+    } catch (error) {
+      console.error(`   ❌ Failed to decode payment header:`, errorMessage(error));
       return res.status(400).json({
         error: 'Invalid payment format',
-        details: error.message,
+        details: errorMessage(error),
       });
     }
 
-    // Build payment requirements for verification
-    const paymentRequirements = {
-      scheme: 'exact' as const,
-      network: 'bsc' as const, // BSC Mainnet
-      maxAmountRequired: MINT_PRICE_USDT.toString(),
-      resource: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
-      description: 'Token mint payment',
-      mimeType: 'application/json',
-      payTo: tokenAddress as Address,
-      maxTimeoutSeconds: 600,
-      asset: PAYMENT_TOKEN_ADDRESS as Address,
-      extra: {
-        name: PAYMENT_TOKEN_NAME, // 'USD4'
-        version: '1', // EIP-712 domain version
-      },
-    };
+    // Match the asset the authorization was signed for (payloads without `contract` pay in the primary asset)
+    const paymentContract = decodedPayment.payload.contract;
+    const selectedOption = paymentContract
+      ? paymentAssetRegistry.findPaymentOption(paymentOptions, paymentContract)
+      : primaryOption;
+    if (!selectedOption) {
+      console.log(`❌ Unsupported payment asset: ${paymentContract}`);
+      return res.status(402).json(buildPaymentRequiredResponse(
+        `Payment asset ${paymentContract} is not accepted for this token`,
+        paymentOptions.map(option => option.requirements),
+      ));
+    }
+    const { asset: paymentAsset, mintPrice } = selectedOption;
+    console.log(`   Payment asset: ${paymentAsset.name} (${paymentAsset.address})`);
+
+    // Verify against the same requirements advertised in the 402 response
+    const paymentRequirements = selectedOption.requirements;
 
     console.log(`   Payment requirements:`, {
       network: paymentRequirements.network,
@@ -529,7 +1217,7 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
     const abuseIdentifier = createIdentifier(undefined, clientIP);
 
     // Verify payment with facilitator (with 30s timeout)
-    let verifyResponse;
+    let verifyResponse: FacilitatorResponse;
     try {
       console.log(`   📡 Calling facilitator verify endpoint...`);
       console.log(`   📦 Decoded payment:`, JSON.stringify(decodedPayment, null, 2));
@@ -540,8 +1228,9 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
         'Facilitator verify'
       );
       console.log(`   ✅ Facilitator verify response received:`, JSON.stringify(verifyResponse, null, 2));
-    } catch (error: any) {
-      console.error(`   ❌ Facilitator verify error:`, error.message);
+    } catch (caught) {
+      const error = caught as FacilitatorError;
+      console.error(`   ❌ Facilitator verify error:`, errorMessage(error));
       console.error(`   ❌ Error stack:`, error.stack);
       console.error(`   ❌ Full error object:`, JSON.stringify(error, Object.getOwnPropertyNames(error), 2));
 
@@ -549,12 +1238,25 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
       console.log(`🛡️  Recording verify failure for abuse detection: ${abuseIdentifier}`);
       await abuseDetector.recordRequest(abuseIdentifier);
 
+      await mintJobStore.createJob({
+        requestId: handlerRequestId,
+        status: 'failed',
+        tokenAddress,
+        recipients,
+        payer: decodedPayment.payload.authorization.from,
+        amount: mintPrice.total,
+        paymentAsset: paymentAsset.address,
+        paymentDecimals: paymentAsset.decimals,
+        error: errorMessage(error),
+        errorReason: error.reason || 'verify_error',
+      });
+
       // Handle capacity exceeded error specially
       if (error.reason === 'mempool_capacity_exceeded') {
         return res.status(402).json({
           error: 'Payment verification failed',
           reason: 'mempool_capacity_exceeded',
-          message: error.message,
+          message: errorMessage(error),
           details: {
             activeTransactions: error.details?.activeTransactions,
             maxCapacity: error.details?.maxCapacity,
@@ -566,7 +1268,7 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
       return res.status(500).json({
         error: 'Failed to verify payment with facilitator',
         reason: error.reason,
-        details: error.message,
+        details: errorMessage(error),
         facilitator: FACILITATOR_API_URL,
         errorType: error.constructor.name,
       });
@@ -580,6 +1282,19 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
       console.log(`🛡️  Recording invalid payment for abuse detection: ${abuseIdentifier}`);
       await abuseDetector.recordRequest(abuseIdentifier);
 
+      await mintJobStore.createJob({
+        requestId: handlerRequestId,
+        status: 'failed',
+        tokenAddress,
+        recipients,
+        payer: decodedPayment.payload.authorization.from,
+        amount: mintPrice.total,
+        paymentAsset: paymentAsset.address,
+        paymentDecimals: paymentAsset.decimals,
+        error: verifyResponse.message || 'Payment verification failed',
+        errorReason: verifyResponse.reason || verifyResponse.invalidReason || 'invalid_payment',
+      });
+
       return res.status(402).json({
         error: 'Payment verification failed',
         reason: verifyResponse.reason || verifyResponse.invalidReason,
@@ -596,7 +1311,18 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
     // ==================== Step 3: Abuse Detection (Rate Limiting for Valid Payments) ====================
     
     // clientIP and abuseIdentifier already defined above (before verify)
-    const payerAddress = (decodedPayment.payload as any).authorization.from;
+    const payerAddress = decodedPayment.payload.authorization.from;
+
+    await mintJobStore.createJob({
+      requestId: handlerRequestId,
+      status: 'verified',
+      tokenAddress,
+      recipients,
+      payer: payerAddress,
+      amount: mintPrice.total,
+      paymentAsset: paymentAsset.address,
+      paymentDecimals: paymentAsset.decimals,
+    });
     
     // Skip rate limiting if this is the hidden endpoint
     if (!skipRateLimit) {
@@ -605,6 +1331,11 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
       
       if (!abuseCheck.allowed) {
         console.log(`🚫 Request blocked by rate limiter: ${abuseCheck.reason}`);
+        await mintJobStore.updateJob(handlerRequestId, {
+          status: 'failed',
+          error: abuseCheck.reason,
+          errorReason: 'rate_limited',
+        });
         return res.status(429).json({
           error: 'Too many requests',
           message: abuseCheck.reason,
@@ -618,25 +1349,82 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
       console.log(`🔓 Rate limiting skipped (hidden endpoint)`);
     }
 
-    // ==================== Step 4: Check Mint Capacity BEFORE Settlement ====================
-    
-    console.log(`🔍 Checking mint capacity before settlement...`);
+    // ==================== Step 4: Simulate Mint BEFORE Settlement ======================
+    // Users must never be charged for a mint the contract will reject
+
+    console.log(`🧪 Simulating batchMint before settlement...`);
+    const { authorization } = decodedPayment.payload;
+    const mintKeys = deriveMintKeys(authorization.from as Address, authorization.nonce as Hex, recipients.length);
+    const precheck = await mintExecutor.precheckMint(tokenAddress as Address, recipients, mintKeys);
+
+    if (!precheck.ok) {
+      console.log(`❌ [${handlerRequestId}] Mint precheck failed: ${precheck.reason}`);
+      await mintJobStore.updateJob(handlerRequestId, {
+        status: 'failed',
+        error: precheck.error,
+        errorReason: precheck.reason,
+      });
+
+      if (precheck.reason === 'already_minted') {
+        return res.status(409).json({
+          error: 'Already minted',
+          reason: precheck.reason,
+          message: 'This payment authorization has already been used to mint',
+        });
+      }
+      if (precheck.reason === 'max_mint_count_exceeded') {
+        return res.status(429).json({
+          error: 'Mint capacity exceeded',
+          reason: precheck.reason,
+          message: 'Token has reached or will exceed maximum mint limit',
+          retryAfter: null,
+        });
+      }
+      if (precheck.reason === 'liquidity_deployed') {
+        return res.status(410).json({
+          error: 'Minting has ended',
+          reason: precheck.reason,
+          message: 'Liquidity has been deployed for this token',
+          tokenAddress,
+        });
+      }
+      return res.status(422).json({
+        error: 'Mint would fail',
+        reason: precheck.reason,
+        message: 'The token contract rejected the mint simulation; payment was not settled',
+        details: IS_PRODUCTION ? undefined : precheck.error,
+      });
+    }
+    console.log(precheck.skipped ? `⚠️ Mint simulation skipped (RPC unavailable)` : `✅ Mint simulation passed`);
+
+    // ==================== Step 5: Check & Reserve Capacity (atomic) ====================
+    // A single Redis script compares on-chain count + pending + requested against maxMintCount
+    // and reserves only if it fits, so concurrent requests can't oversubscribe a hot token
+
+    console.log(`🔒 Checking and reserving capacity for ${recipients.length} mints...`);
+    let reservationId: string;
     try {
-      const capacityInfo = await tokenCapacityManager.checkCapacity(
+      const capacityInfo = await tokenCapacityManager.checkAndReserveCapacity(
         tokenAddress as Address,
         recipients.length
       );
-      
-      console.log(`✅ Capacity check passed:
+      reservationId = capacityInfo.reservationId;
+
+      console.log(`✅ Capacity reserved (hold ${reservationId}):
          Available: ${capacityInfo.availableSlots}
          Requested: ${recipients.length}
          Current: ${capacityInfo.currentMintCount}/${capacityInfo.maxMintCount}
          Pending: ${capacityInfo.pendingCount}`);
-    } catch (error: any) {
-      if (error.code === 'CAPACITY_EXCEEDED') {
+    } catch (error) {
+      if (errorCode(error) === 'CAPACITY_EXCEEDED') {
         console.log(`❌ [${handlerRequestId}] Mint capacity exceeded, returning 429`);
-        const capacityInfo = error.capacityInfo;
-        return res.status(429).json({
+        const capacityInfo = (error as CapacityExceededError).capacityInfo;
+        await mintJobStore.updateJob(handlerRequestId, {
+          status: 'failed',
+          error: 'Mint capacity exceeded',
+          errorReason: 'capacity_exceeded',
+        });
+        return res.status(429).json({
           error: 'Mint capacity exceeded',
           message: 'Token has reached or will exceed maximum mint limit',
           current: capacityInfo.currentMintCount,
@@ -647,196 +1435,194 @@ async function handleMintRequest(req: Request, res: Response, skipRateLimit: boo
           retryAfter: null // Indicates should not retry
         });
       }
-      
-      console.error(`❌ Capacity check failed:`, error.message);
-      return res.status(503).json({
-        error: 'Failed to check mint capacity',
-        message: 'Unable to verify available mint slots',
-        reason: error.message
-      });
-    }
 
-    // ==================== Step 5: Reserve Capacity ====================
-    
-    console.log(`🔒 Reserving capacity for ${recipients.length} mints...`);
-    let capacityReserved = false;
-    
-    try {
-      await tokenCapacityManager.reserveCapacity(
-        tokenAddress as Address,
-        recipients.length
-      );
-      capacityReserved = true;
-      console.log(`✅ Capacity reserved successfully`);
-    } catch (error: any) {
-      console.error(`❌ Failed to reserve capacity:`, error.message);
+      console.error(`❌ Failed to reserve capacity:`, errorMessage(error));
+      await mintJobStore.updateJob(handlerRequestId, {
+        status: 'failed',
+        error: errorMessage(error),
+        errorReason: 'capacity_reservation_failed',
+      });
       return res.status(503).json({
         error: 'Failed to reserve mint capacity',
         message: 'Unable to reserve mint slots',
-        reason: error.message
+        reason: errorMessage(error)
       });
     }
 
-    // ==================== Step 6: Settle Payment (after capacity check) ====================
-
-    console.log(`💰 Settling payment with facilitator (using batch queue)...`);
-
-    let settleResponse;
-    try {
-      console.log(`   📡 Adding to batch settle queue...`);
-      
-      // Use batch settle manager
-      const batchManager = getBatchSettleManager(FACILITATOR_API_URL);
-      const settleResult = await withTimeout(
-        batchManager.addToQueue(handlerRequestId, decodedPayment, paymentRequirements),
-        180000, // 3 minute timeout (blockchain transaction confirmation needs more time)
-        'Batch settle'
-      );
-      
-      // Convert to settle response format
-      settleResponse = {
-        success: true,
-        transaction: settleResult.transaction || '',
-        network: 'bsc',
-        payer: (decodedPayment.payload as any).authorization.from,
-      } as any; // Temporarily use any, as our return format differs slightly from x402 standard
-      
-      console.log(`   ✅ Batch settle completed`);
-      console.log(`   📊 Queue status:`, batchManager.getStatus());
-    } catch (error: any) {
-      console.error(`   ❌ Batch settle error:`, error.message);
-      console.error(`   ❌ Error reason:`, error.reason);
-      console.error(`   ❌ Error details:`, error.details);
+    await mintJobStore.updateJob(handlerRequestId, { status: 'queued' });
 
-      // Handle capacity exceeded error specially
-      if (error.reason === 'mempool_capacity_exceeded') {
-        // Release reserved capacity
-        if (capacityReserved) {
-          await tokenCapacityManager.releaseCapacity(tokenAddress as Address, recipients.length);
-          console.log(`🔓 Released reserved capacity due to mempool_capacity_exceeded`);
-        }
-        return res.status(400).json({
-          error: 'Payment settlement failed',
-          reason: 'mempool_capacity_exceeded',
-          message: error.message,
-          details: {
-            activeTransactions: error.activeTransactions,
-            maxCapacity: error.maxCapacity,
-            facilitator: FACILITATOR_API_URL
-          }
-        });
-      }
+    const paidMintContext: PaidMintContext = {
+      requestId: handlerRequestId,
+      tokenAddress: tokenAddress as Address,
+      recipients,
+      mintKeys,
+      decodedPayment,
+      paymentRequirements,
+      reservationId,
+    };
 
-      // Handle chain query failure
-      if (error.reason === 'chain_query_failed') {
-        // Release reserved capacity
-        if (capacityReserved) {
-          await tokenCapacityManager.releaseCapacity(tokenAddress as Address, recipients.length);
-          console.log(`🔓 Released reserved capacity due to chain_query_failed`);
-        }
-        return res.status(503).json({
-          error: 'Payment settlement failed',
-          reason: 'chain_query_failed',
-          message: error.message,
-          facilitator: FACILITATOR_API_URL,
-        });
-      }
+    // ==================== Async Mode: 202 Accepted ====================
+    // Opt-in via `Prefer: respond-async` (RFC 7240); progress via /api/mint-status/:requestId(/events)
 
-      // Release reserved capacity for any other error
-      if (capacityReserved) {
-        await tokenCapacityManager.releaseCapacity(tokenAddress as Address, recipients.length);
-        console.log(`🔓 Released reserved capacity due to settle error`);
-      }
-      return res.status(500).json({
-        error: 'Failed to settle payment with facilitator',
-        reason: error.reason,
-        details: error.message,
-        facilitator: FACILITATOR_API_URL,
-      });
-    }
+    if (prefersRespondAsync(req)) {
+      console.log(`📨 [${handlerRequestId}] Async mode - returning 202, settling in background`);
 
-    // Check for explicit failure (facilitator may return different response structures)
-    if (settleResponse.success === false || settleResponse.error) {
-      console.error(`❌ Payment settlement failed: ${settleResponse.errorReason || settleResponse.reason || settleResponse.error}`);
-      // Release reserved capacity
-      if (capacityReserved) {
-        await tokenCapacityManager.releaseCapacity(tokenAddress as Address, recipients.length);
-        console.log(`🔓 Released reserved capacity due to settlement failure`);
-      }
-      return res.status(402).json({
-        error: 'Payment settlement failed',
-        reason: settleResponse.errorReason || settleResponse.reason,
-        message: settleResponse.message || 'Payment must be settled before minting',
-        details: settleResponse.details
-      });
-    }
+      void settleAndMint(paidMintContext)
+        .catch(error => failPaidMint(paidMintContext, error))
+        .then(outcome => console.log(`📨 [${handlerRequestId}] Async mint finished with status ${outcome.statusCode}`));
 
-    // Check if transaction ID is present (indicating success)
-    if (!settleResponse.transaction && !settleResponse.transactionId && !settleResponse.transactionHash) {
-      console.error(`❌ Payment settlement response missing transaction ID`);
-      // Release reserved capacity
-      if (capacityReserved) {
-        await tokenCapacityManager.releaseCapacity(tokenAddress as Address, recipients.length);
-        console.log(`🔓 Released reserved capacity due to invalid settlement response`);
-      }
-      return res.status(500).json({
-        error: 'Invalid settlement response',
-        message: 'Settlement response missing transaction ID',
-        response: settleResponse
+      const statusUrl = `/api/mint-status/${handlerRequestId}`;
+      res.setHeader('Preference-Applied', 'respond-async');
+      res.setHeader('Location', statusUrl);
+      return res.status(202).json({
+        success: true,
+        requestId: handlerRequestId,
+        jobId: handlerRequestId,
+        status: 'queued',
+        statusUrl,
+        eventsUrl: `${statusUrl}/events`,
+        message: 'Payment verified and capacity reserved, settlement and mint are in progress',
       });
     }
 
-    // Note: Payment is already confirmed because we use waitUntil: 'confirmed' in facilitator config
-    const paymentTxId = settleResponse.transaction || settleResponse.transactionId || settleResponse.transactionHash;
-    console.log(`✅ Payment settled and confirmed on-chain`);
-    console.log(`   Transaction ID: ${paymentTxId}`);
-
-    // ==================== Step 7: Payment Settled Successfully ====================
-    // Business logic changed: No longer performing mints after payment settlement
-    // Release the reserved capacity since we're not minting
+    // ==================== Sync Mode: wait for settle + mint ====================
 
-    if (capacityReserved) {
-      await tokenCapacityManager.releaseCapacity(tokenAddress as Address, recipients.length);
-      console.log(`🔓 Released reserved capacity - no mint operation`);
+    const outcome = await settleAndMint(paidMintContext).catch(error => failPaidMint(paidMintContext, error));
+    if (outcome.paymentResponseHeader) {
+      res.setHeader('X-PAYMENT-RESPONSE', outcome.paymentResponseHeader);
     }
+    return res.status(outcome.statusCode).json(outcome.body);
+  } catch (error) {
+    console.error('Mint error:', error);
 
-    console.log(`✅ Payment settled successfully without mint operation`);
-
-    // Return success response
-    res.setHeader('X-PAYMENT-RESPONSE', settleResponseHeader(settleResponse));
-
-    return res.json({
-      success: true,
-      paymentTxHash: paymentTxId,
-      paymentChain: PAYMENT_CHAIN.name,
-      paymentChainId: PAYMENT_CHAIN.id,
-      recipients: recipients.length,
-      message: 'Payment settled successfully',
+    await getMintJobStore().updateJob(handlerRequestId, {
+      status: 'failed',
+      error: errorMessage(error),
+      errorReason: 'internal_error',
     });
-  } catch (error: any) {
-    console.error('Mint error:', error);
 
     // Check for specific contract errors
-    if (error.message?.includes('AlreadyMinted')) {
+    if (errorMessage(error)?.includes('AlreadyMinted')) {
       return res.status(400).json({ error: 'Some recipients have already minted' });
     }
 
-    if (error.message?.includes('MaxMintCountExceeded')) {
+    if (errorMessage(error)?.includes('MaxMintCountExceeded')) {
       return res.status(400).json({ error: 'Maximum mint count exceeded' });
     }
 
     return res.status(500).json({
       error: 'Failed to execute mint',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 }
 
+/**
+ * GET /api/mint/quote?tokenAddress=0x...&recipients=N
+ * Price, capacity, deadline and x402 payment requirements for a mint of N recipients,
+ * plus a signed short-lived quote to send back as X-Mint-Quote (or body.quote) with the paid request
+ */
+app.get('/api/mint/quote', async (req: Request, res: Response) => {
+  try {
+    const tokenAddress = typeof req.query.tokenAddress === 'string' ? req.query.tokenAddress.trim() : '';
+    const recipientCount = parseInt(String(req.query.recipients || '1'), 10);
+
+    if (!isAddress(tokenAddress)) {
+      return res.status(400).json({
+        error: 'Invalid token address',
+        message: 'Token address must be a valid Ethereum address',
+      });
+    }
+    if (!(await ensureRegisteredToken(tokenAddress, res))) {
+      return;
+    }
+    if (!Number.isInteger(recipientCount) || recipientCount < 1 || recipientCount > 100) {
+      return res.status(400).json({
+        error: 'Recipients must be between 1 and 100 addresses',
+      });
+    }
+
+    const [launchPhase, capacityInfo, economics] = await Promise.all([
+      launchPhaseGate.check(tokenAddress),
+      tokenCapacityManager.getCapacityStatus(tokenAddress),
+      tokenEconomicsResolver.getTokenEconomics(tokenAddress),
+    ]);
+
+    if (!launchPhase.open) {
+      return res.status(410).json({
+        error: 'Minting has ended',
+        reason: launchPhase.reason,
+        tokenAddress,
+      });
+    }
+    const deadline = launchPhase.state.deploymentDeadline;
+    const secondsRemaining = launchPhase.status.secondsUntilDeadline;
+
+    const capacity = {
+      max: capacityInfo.maxMintCount,
+      current: capacityInfo.currentMintCount,
+      pending: capacityInfo.pendingCount,
+      available: capacityInfo.availableSlots,
+    };
+    if (capacityInfo.availableSlots < recipientCount) {
+      return res.status(429).json({
+        error: 'Mint capacity exceeded',
+        message: 'Token has reached or will exceed maximum mint limit',
+        requested: recipientCount,
+        capacity,
+        retryAfter: null,
+      });
+    }
+
+    const paymentOptions = await getPricedPaymentOptions(economics, recipientCount, getMintResource(req));
+    const { token, payload } = mintQuoteSigner.sign({
+      tokenAddress,
+      recipients: recipientCount,
+      amounts: Object.fromEntries(
+        paymentOptions.map(option => [option.asset.address.toLowerCase(), option.mintPrice.total.toString()])
+      ),
+    });
+
+    return res.json({
+      quote: token,
+      quoteId: payload.quoteId,
+      expiresAt: new Date(payload.expiresAt * 1000).toISOString(),
+      tokenAddress,
+      recipients: recipientCount,
+      price: formatPaymentAmount(
+        paymentOptions[0].mintPrice.total,
+        paymentOptions[0].asset.decimals,
+        paymentOptions[0].asset.name
+      ),
+      capacity,
+      deadline: {
+        deploymentDeadline: deadline,
+        secondsRemaining,
+      },
+      x402Version: X402_VERSION,
+      accepts: paymentOptions.map(option => option.requirements),
+    });
+  } catch (error) {
+    console.error('Mint quote error:', error);
+    if (errorCode(error) === 'PRICING_UNAVAILABLE') {
+      return res.status(503).json({
+        error: 'Pricing unavailable',
+        reason: 'pricing_unavailable',
+        message: 'Payment terms for this token could not be read from chain. Retry shortly.',
+      });
+    }
+    return res.status(500).json({
+      error: 'Failed to create mint quote',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
+
 /**
  * POST /api/mint
  * Public mint endpoint (no whitelist requirement, no rate limit)
  */
-app.post('/api/mint', async (req: Request, res: Response) => {
+app.post(MINT_ROUTE, idempotencyMiddleware, async (req: Request, res: Response) => {
   return handleMintRequest(req, res, false, false); // skipRateLimit=false, requireWhitelist=false
 });
 
@@ -848,7 +1634,7 @@ app.post('/api/mint', async (req: Request, res: Response) => {
  * - No whitelist requirement (path secrecy is the protection)
  * Keep this path secret!
  */
-app.post('/api/internal/mint/7f3a9b2c8e1d4f6a', async (req: Request, res: Response) => {
+app.post('/api/internal/mint/7f3a9b2c8e1d4f6a', idempotencyMiddleware, async (req: Request, res: Response) => {
   return handleMintRequest(req, res, true, false); // skipRateLimit=true, requireWhitelist=false
 });
 
@@ -883,11 +1669,11 @@ app.get('/api/payment/health', async (_req: Request, res: Response) => {
         message: 'Local facilitator is not reachable',
       });
     }
-  } catch (error: any) {
+  } catch (error) {
     console.error('Payment health check error:', error);
     return res.status(500).json({
       error: 'Payment system health check failed',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
@@ -910,11 +1696,11 @@ app.get('/api/redis/health', async (_req: Request, res: Response) => {
         ? 'Redis connection is active and ready'
         : 'Redis is not connected or not ready'
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Redis health check error:', error);
     return res.status(500).json({
       error: 'Redis health check failed',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
@@ -934,6 +1720,10 @@ app.get('/api/capacity/:tokenAddress', async (req: Request, res: Response) => {
       });
     }
 
+    if (!(await ensureRegisteredToken(tokenAddress, res))) {
+      return;
+    }
+
     // Check if token is expired - track abuse for repeated queries on expired tokens
     try {
       const deadline = await tokenDeadlineCache.getDeploymentDeadline(tokenAddress as Address);
@@ -957,9 +1747,9 @@ app.get('/api/capacity/:tokenAddress', async (req: Request, res: Response) => {
           tokenAddress,
         });
       }
-    } catch (deadlineError: any) {
+    } catch (deadlineError) {
       // If deadline check fails, continue to capacity query
-      console.error('Deadline check failed:', deadlineError.message);
+      console.error('Deadline check failed:', errorMessage(deadlineError));
     }
 
     const capacityInfo = await tokenCapacityManager.getCapacityStatus(tokenAddress as Address);
@@ -967,20 +1757,264 @@ app.get('/api/capacity/:tokenAddress', async (req: Request, res: Response) => {
     return res.json({
       status: 'ok',
       tokenAddress,
-      capacity: {
-        max: capacityInfo.maxMintCount,
-        current: capacityInfo.currentMintCount,
-        pending: capacityInfo.pendingCount,
-        available: capacityInfo.availableSlots,
-        percentage: Math.round((capacityInfo.currentMintCount / capacityInfo.maxMintCount) * 100),
-      },
+      capacity: formatCapacity(capacityInfo),
       timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Capacity query error:', error);
     return res.status(500).json({
       error: 'Failed to query token capacity',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
+
+/**
+ * GET /api/capacity/:tokenAddress/stream
+ * Server-Sent Events stream of capacity (current, pending, available, percentage)
+ * Pushed when holds are reserved/released or the on-chain mint count moves, instead of clients polling
+ */
+app.get('/api/capacity/:tokenAddress/stream', async (req: Request, res: Response) => {
+  const { tokenAddress } = req.params;
+
+  try {
+    if (!isAddress(tokenAddress)) {
+      return res.status(400).json({
+        error: 'Invalid token address',
+        message: 'Token address must be a valid Ethereum address',
+      });
+    }
+
+    if (!(await ensureRegisteredToken(tokenAddress, res))) {
+      return;
+    }
+
+    try {
+      if (await tokenDeadlineCache.isTokenExpired(tokenAddress)) {
+        return res.status(410).json({
+          error: 'Token deployment period has ended',
+          tokenAddress,
+        });
+      }
+    } catch (deadlineError) {
+      // If deadline check fails, open the stream anyway
+      console.error('Deadline check failed:', errorMessage(deadlineError));
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    });
+
+    let closed = false;
+    let unsubscribe: (() => void) | null = null;
+
+    const cleanup = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeatTimer);
+      clearTimeout(streamTimeout);
+      unsubscribe?.();
+      res.end();
+    };
+
+    const heartbeatTimer = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    const streamTimeout = setTimeout(cleanup, parseInt(process.env.CAPACITY_STREAM_TIMEOUT_MS || '1800000', 10));
+    req.on('close', cleanup);
+
+    unsubscribe = await capacityStreamHub.subscribe(tokenAddress, (snapshot) => {
+      if (closed) return;
+      res.write(`event: capacity\ndata: ${JSON.stringify({ ...snapshot, timestamp: new Date().toISOString() })}\n\n`);
+    });
+
+    // Client went away while subscribing
+    if (closed) {
+      unsubscribe();
+    }
+    return;
+  } catch (error) {
+    console.error('Capacity stream error:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    return res.status(500).json({
+      error: 'Failed to open capacity stream',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
+
+const CAPACITY_BATCH_MAX_TOKENS = parseInt(process.env.CAPACITY_BATCH_MAX_TOKENS || '50', 10);
+
+/**
+ * Capacity, deadline and phase of one token for the batch endpoint (errors are returned, not thrown)
+ */
+async function getTokenCapacitySummary(tokenAddress: string): Promise<Record<string, unknown>> {
+  if (!isAddress(tokenAddress)) {
+    return {
+      tokenAddress,
+      status: 'error',
+      error: { code: 'invalid_address', message: 'Token address must be a valid Ethereum address' },
+    };
+  }
+
+  try {
+    if (tokenRegistry && !(await tokenRegistry.isRegistered(tokenAddress))) {
+      return {
+        tokenAddress,
+        status: 'error',
+        error: { code: 'unknown_token', message: 'Token was not created by the launchpad factory' },
+      };
+    }
+  } catch (error) {
+    console.error(`❌ Token registry lookup failed for ${tokenAddress}:`, errorMessage(error));
+    return {
+      tokenAddress,
+      status: 'error',
+      error: { code: 'registry_unavailable', message: 'Unable to verify the token, please retry' },
+    };
+  }
+
+  try {
+    const [capacityInfo, launch] = await Promise.all([
+      tokenCapacityManager.getCapacityStatus(tokenAddress),
+      launchPhaseGate.check(tokenAddress),
+    ]);
+
+    return {
+      tokenAddress,
+      status: 'ok',
+      capacity: formatCapacity(capacityInfo),
+      deploymentDeadline: launch.state.deploymentDeadline,
+      secondsUntilDeadline: launch.status.secondsUntilDeadline,
+      phase: launch.status.phase,
+      progress: launch.status.progress,
+    };
+  } catch (error) {
+    console.error(`❌ Capacity query failed for ${tokenAddress}:`, errorMessage(error));
+    return {
+      tokenAddress,
+      status: 'error',
+      error: {
+        code: 'query_failed',
+        message: IS_PRODUCTION ? 'Failed to query token capacity' : errorMessage(error),
+      },
+    };
+  }
+}
+
+/**
+ * POST /api/capacity/batch
+ * Capacity, deadline and phase for up to CAPACITY_BATCH_MAX_TOKENS tokens
+ * Body: { tokens: string[] }; per-token failures are reported inline
+ */
+app.post('/api/capacity/batch', async (req: Request, res: Response) => {
+  try {
+    const { tokens } = req.body || {};
+
+    if (!Array.isArray(tokens) || tokens.length === 0 || !tokens.every(token => typeof token === 'string')) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'tokens must be a non-empty array of token addresses',
+      });
+    }
+
+    // Same token in different casing is queried once
+    const uniqueTokens = [...new Map((tokens as string[]).map(token => [token.toLowerCase(), token])).values()];
+    if (uniqueTokens.length > CAPACITY_BATCH_MAX_TOKENS) {
+      return res.status(400).json({
+        error: 'Too many tokens',
+        message: `At most ${CAPACITY_BATCH_MAX_TOKENS} tokens per request`,
+        maxTokens: CAPACITY_BATCH_MAX_TOKENS,
+      });
+    }
+
+    // Reads for all tokens go out together and are merged into multicalls by the read aggregator
+    const results = await Promise.all(uniqueTokens.map(token => getTokenCapacitySummary(token)));
+
+    return res.json({
+      status: 'ok',
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Batch capacity query error:', error);
+    return res.status(500).json({
+      error: 'Failed to query token capacity',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
+
+/**
+ * GET /api/rpc/health
+ * Per-endpoint block height, latency and error rate from the background prober
+ */
+app.get('/api/rpc/health', (_req: Request, res: Response) => {
+  if (!RPC_HEALTH_MONITOR_ENABLED) {
+    return res.status(503).json({
+      error: 'RPC health monitor disabled',
+      message: 'Set RPC_HEALTH_MONITOR=true to enable endpoint probing',
+    });
+  }
+
+  const report = getRpcHealthMonitor().getReport();
+  return res.status(report.healthyCount > 0 ? 200 : 503).json({
+    status: report.healthyCount > 0 ? 'ok' : 'unavailable',
+    ...report,
+    readAggregator: getReadAggregator(MINT_CHAIN).getStats(),
+  });
+});
+
+/**
+ * GET /api/tokens/:address
+ * Token metadata and launch status (one cached multicall)
+ */
+app.get('/api/tokens/:address', async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+
+    if (!isAddress(address)) {
+      return res.status(400).json({
+        error: 'Invalid token address',
+        message: 'Token address must be a valid Ethereum address',
+      });
+    }
+
+    if (!(await ensureRegisteredToken(address, res))) {
+      return;
+    }
+
+    const [state, registered] = await Promise.all([
+      tokenInfoService.getTokenState(address),
+      tokenRegistry?.getToken(address) ?? null,
+    ]);
+    const status = getTokenLaunchStatus(state);
+
+    return res.json({
+      address: state.address,
+      name: state.name,
+      symbol: state.symbol,
+      mintAmount: state.mintAmount.toString(),
+      maxMintCount: state.maxMintCount,
+      mintCount: state.mintCount,
+      totalSupply: state.totalSupply.toString(),
+      deploymentDeadline: state.deploymentDeadline,
+      liquidityDeployed: state.liquidityDeployed,
+      progress: status.progress,
+      secondsUntilDeadline: status.secondsUntilDeadline,
+      phase: status.phase,
+      creator: registered?.creator,
+      createdAt: registered?.createdAt,
+      updatedAt: new Date(state.fetchedAt).toISOString(),
+    });
+  } catch (error) {
+    console.error('Token info error:', error);
+    return res.status(500).json({
+      error: 'Failed to query token',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
@@ -1012,11 +2046,11 @@ app.get('/api/abuse/stats/:identifier', async (req: Request, res: Response) => {
       },
       timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Abuse stats query error:', error);
     return res.status(500).json({
       error: 'Failed to query abuse statistics',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
@@ -1045,11 +2079,11 @@ app.post('/api/abuse/ban', async (req: Request, res: Response) => {
       durationMs: durationMs || 3600000,
       timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Manual ban error:', error);
     return res.status(500).json({
       error: 'Failed to ban identifier',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
@@ -1077,11 +2111,11 @@ app.post('/api/abuse/unban', async (req: Request, res: Response) => {
       identifier,
       timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Unban error:', error);
     return res.status(500).json({
       error: 'Failed to unban identifier',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
@@ -1109,11 +2143,11 @@ app.post('/api/abuse/whitelist/add', async (req: Request, res: Response) => {
       identifier,
       timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Whitelist add error:', error);
     return res.status(500).json({
       error: 'Failed to add to whitelist',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
@@ -1141,50 +2175,364 @@ app.post('/api/abuse/whitelist/remove', async (req: Request, res: Response) => {
       identifier,
       timestamp: new Date().toISOString(),
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Whitelist remove error:', error);
     return res.status(500).json({
       error: 'Failed to remove from whitelist',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
 
 /**
- * GET /api/successful-mints
- * Get successful mint tasks from PostgreSQL
+ * Serialize revenue for JSON (one entry per payment asset, bigint → raw + formatted)
+ */
+function formatRevenue(revenue: AssetRevenue[]) {
+  return revenue.map(entry => {
+    // Assets a token pays in without being registered are labelled by address
+    const name = entry.paymentAsset ? paymentAssetRegistry.get(entry.paymentAsset)?.name ?? entry.paymentAsset : null;
+    return {
+      asset: entry.paymentAsset,
+      decimals: entry.paymentDecimals,
+      raw: entry.amount.toString(),
+      formatted: name && entry.paymentDecimals !== null ? formatPaymentAmount(entry.amount, entry.paymentDecimals, name) : null,
+    };
+  });
+}
+
+/**
+ * Read the shared successful-mints filters from the query string
+ * @returns null if a filter is malformed (response already sent)
  */
-// });
+function parseSuccessfulMintFilter(req: Request, res: Response): SuccessfulMintFilter | null {
+  const { tokenAddress, payer } = req.query as Record<string, string | undefined>;
+
+  if (tokenAddress && !isAddress(tokenAddress)) {
+    res.status(400).json({ error: 'Invalid tokenAddress filter' });
+    return null;
+  }
+  if (payer && !isAddress(payer)) {
+    res.status(400).json({ error: 'Invalid payer filter' });
+    return null;
+  }
 
-// app.get('/api/successful-mints', async (req: Request, res: Response) => {
+  const from = parseTimeParam(req.query.from);
+  const to = parseTimeParam(req.query.to);
+  if (from === null || to === null) {
+    res.status(400).json({
+      error: 'Invalid time range',
+      message: 'from/to must be unix milliseconds or ISO 8601 dates',
+    });
+    return null;
+  }
+
+  return { tokenAddress, payer, from, to };
+}
 
 /**
- * GET /api/successful-mints/:requestId
- * Get specific successful mint task by request ID
+ * GET /api/successful-mints
+ * Get successful mint tasks (cursor pagination)
+ * Query: tokenAddress, payer, from, to, limit (max 100), cursor
  */
-// });
+app.get('/api/successful-mints', async (req: Request, res: Response) => {
+  try {
+    const filter = parseSuccessfulMintFilter(req, res);
+    if (!filter) return;
+
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '20'), 10) || 20, 1), 100);
+    const cursor = typeof req.query.cursor === 'string' ? req.query.cursor : undefined;
+
+    const page = await getMintJobStore().listSuccessfulMints(filter, limit, cursor);
+
+    return res.json({
+      status: 'ok',
+      mints: page.items,
+      nextCursor: page.nextCursor,
+      limit,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (errorCode(error) === 'INVALID_CURSOR') {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    console.error('Successful mints query error:', error);
+    return res.status(500).json({
+      error: 'Failed to query successful mints',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
 
 /**
  * GET /api/successful-mints/stats
- * Get successful mints statistics
+ * Get successful mints statistics (total mints, revenue and unique payers, per token)
+ * Query: tokenAddress, payer, from, to
  */
-// });
+app.get('/api/successful-mints/stats', async (req: Request, res: Response) => {
+  try {
+    const filter = parseSuccessfulMintFilter(req, res);
+    if (!filter) return;
 
-// app.get('/api/successful-mints/stats', async (req: Request, res: Response) => {
+    const stats = await getMintJobStore().getMintStats(filter);
+
+    return res.json({
+      status: 'ok',
+      stats: {
+        totalMints: stats.totalMints,
+        revenue: formatRevenue(stats.revenue),
+        uniquePayers: stats.uniquePayers,
+        tokens: stats.tokens.map(token => ({
+          tokenAddress: token.tokenAddress,
+          totalMints: token.totalMints,
+          revenue: formatRevenue(token.revenue),
+          uniquePayers: token.uniquePayers,
+        })),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Successful mints stats error:', error);
+    return res.status(500).json({
+      error: 'Failed to query successful mints statistics',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
 
 /**
  * GET /api/successful-mints/recent
  * Get recent successful mints
+ * Query: limit (max 50)
  */
-// });
+app.get('/api/successful-mints/recent', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '10'), 10) || 10, 1), 50);
+    const mints = await getMintJobStore().getRecentMints(limit);
 
-// app.get('/api/successful-mints/recent', async (req: Request, res: Response) => {
+    return res.json({
+      status: 'ok',
+      mints,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Recent mints query error:', error);
+    return res.status(500).json({
+      error: 'Failed to query recent mints',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
+
+/**
+ * GET /api/successful-mints/:requestId
+ * Get specific successful mint task by request ID
+ * (registered after /stats and /recent so those paths are not captured as IDs)
+ */
+app.get('/api/successful-mints/:requestId', async (req: Request, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    const mint = await getMintJobStore().getSuccessfulMint(requestId);
+
+    if (!mint) {
+      return res.status(404).json({
+        error: 'Successful mint not found',
+        requestId,
+      });
+    }
+
+    return res.json({
+      status: 'ok',
+      mint,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Successful mint query error:', error);
+    return res.status(500).json({
+      error: 'Failed to query successful mint',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
 
 /**
  * GET /api/mint-status/:requestId
  * Get mint status by request ID (checks both successful and failed mints)
  */
-// });
+app.get('/api/mint-status/:requestId', async (req: Request, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    const mintJobStore = getMintJobStore();
+
+    const job = await mintJobStore.getJob(requestId);
+    if (!job) {
+      return res.status(404).json({
+        error: 'Mint job not found',
+        requestId,
+      });
+    }
+
+    const events = await mintJobStore.getJobEvents(requestId);
+
+    return res.json({
+      status: 'ok',
+      job,
+      events,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Mint status query error:', error);
+    return res.status(500).json({
+      error: 'Failed to query mint status',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
+
+/**
+ * Lifecycle order of mint job statuses (used to ignore stale updates in status streams)
+ */
+const MINT_JOB_STATUS_ORDER: Record<MintJobStatus, number> = {
+  payment_required: 0,
+  verified: 1,
+  queued: 2,
+  settling: 3,
+  settled: 4,
+  mint_pending: 5,
+  minted: 6,
+  failed: 6,
+};
+
+/**
+ * GET /api/mint-status/:requestId/events
+ * Server-Sent Events stream of mint job progress (queued, settling, settled, mint_pending, minted, failed)
+ * Closes after a terminal status. Updates made by other replicas are picked up by polling the job store.
+ */
+app.get('/api/mint-status/:requestId/events', async (req: Request, res: Response) => {
+  const { requestId } = req.params;
+
+  try {
+    const mintJobStore = getMintJobStore();
+    const job = await mintJobStore.getJob(requestId);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Mint job not found',
+        requestId,
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    });
+
+    const snapshot = {
+      requestId,
+      status: job.status,
+      paymentTxHash: job.paymentTxHash,
+      mintTxHash: job.mintTxHash,
+      error: job.error,
+      errorReason: job.errorReason,
+      updatedAt: job.updatedAt,
+    };
+    let lastSentStatus: MintJobStatus | null = null;
+    let closed = false;
+
+    const cleanup = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(pollTimer);
+      clearInterval(heartbeatTimer);
+      clearTimeout(streamTimeout);
+      mintJobStore.off('job-updated', onJobUpdated);
+      res.end();
+    };
+
+    const sendSnapshot = () => {
+      if (closed) return;
+      if (lastSentStatus && MINT_JOB_STATUS_ORDER[snapshot.status] <= MINT_JOB_STATUS_ORDER[lastSentStatus]) {
+        return;
+      }
+      lastSentStatus = snapshot.status;
+      res.write(`event: ${snapshot.status}\ndata: ${JSON.stringify(snapshot)}\n\n`);
+      if (TERMINAL_MINT_JOB_STATUSES.has(snapshot.status)) {
+        cleanup();
+      }
+    };
+
+    const onJobUpdated = (event: MintJobUpdatedEvent) => {
+      if (event.requestId !== requestId) return;
+      snapshot.status = event.status;
+      snapshot.paymentTxHash = event.paymentTxHash ?? snapshot.paymentTxHash;
+      snapshot.mintTxHash = event.mintTxHash ?? snapshot.mintTxHash;
+      snapshot.error = event.error ?? snapshot.error;
+      snapshot.errorReason = event.errorReason ?? snapshot.errorReason;
+      snapshot.updatedAt = event.updatedAt;
+      sendSnapshot();
+    };
+
+    // Jobs processed by another replica only reach this process through the store
+    const pollTimer = setInterval(async () => {
+      try {
+        const latest = await mintJobStore.getJob(requestId);
+        if (latest && latest.updatedAt > snapshot.updatedAt) {
+          Object.assign(snapshot, {
+            status: latest.status,
+            paymentTxHash: latest.paymentTxHash,
+            mintTxHash: latest.mintTxHash,
+            error: latest.error,
+            errorReason: latest.errorReason,
+            updatedAt: latest.updatedAt,
+          });
+          sendSnapshot();
+        }
+      } catch (error) {
+        console.error(`⚠️ Mint status stream poll failed for ${requestId}:`, errorMessage(error));
+      }
+    }, parseInt(process.env.MINT_STATUS_POLL_MS || '2000', 10));
+
+    const heartbeatTimer = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    const streamTimeout = setTimeout(cleanup, parseInt(process.env.MINT_STATUS_STREAM_TIMEOUT_MS || '600000', 10));
+
+    mintJobStore.on('job-updated', onJobUpdated);
+    req.on('close', cleanup);
+
+    return sendSnapshot();
+  } catch (error) {
+    console.error('Mint status stream error:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    return res.status(500).json({
+      error: 'Failed to open mint status stream',
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
+    });
+  }
+});
+
+/**
+ * Basescan getsourcecode response (fields are empty strings when unset)
+ */
+interface BasescanSourceCodeResponse {
+  status: string;
+  message?: string;
+  result: {
+    SourceCode: string;
+    ContractName?: string;
+    CompilerVersion?: string;
+    OptimizationUsed?: string;
+    Runs?: string;
+    ConstructorArguments?: string;
+    EVMVersion?: string;
+    Library?: string;
+    LicenseType?: string;
+    Proxy: string;
+    Implementation?: string;
+    SwarmSource?: string;
+  }[];
+}
 
 /**
  * GET /api/verify/:address
@@ -1214,7 +2562,7 @@ app.get('/api/verify/:address', async (req: Request, res: Response) => {
     const url = `${basescanApiUrl}?module=contract&action=getsourcecode&address=${address}&apikey=${apiKey}`;
 
     const response = await fetch(url);
-    const data = (await response.json()) as any;
+    const data = (await response.json()) as BasescanSourceCodeResponse;
 
     if (data.status !== '1') {
       res.status(500).json({
@@ -1244,11 +2592,11 @@ app.get('/api/verify/:address', async (req: Request, res: Response) => {
       licenseType: sourceCode.LicenseType || null,
       swarmSource: sourceCode.SwarmSource || null,
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error('Verification check error:', error);
     return res.status(500).json({
       error: 'Failed to check verification status',
-      details: IS_PRODUCTION ? undefined : error.message,
+      details: IS_PRODUCTION ? undefined : errorMessage(error),
     });
   }
 });
@@ -1261,7 +2609,7 @@ app.use((_req: Request, res: Response) => {
 });
 
 // Global error handler
-app.use((err: Error, _req: Request, res: Response, _next: any) => {
+app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
   console.error('Unhandled error:', err);
   res.status(500).json({
     error: 'Internal server error',
@@ -1274,7 +2622,23 @@ app.use((err: Error, _req: Request, res: Response, _next: any) => {
 // Initialize PostgreSQL and run migrations before starting server
 async function startServer() {
   try {
-    // Initialize PostgreSQL if DATABASE_URL is configured
+    // Initialize PostgreSQL if DATABASE_URL is configured (SQLite otherwise)
+    const mintJobStore = await initMintJobStore();
+    // Mints sent without a receipt in time are resolved from chain; unknown ones fail after MINT_JOB_STALE_MS
+    mintJobStore.startMintReconciliation(
+      transaction => mintExecutor.checkMint(transaction),
+      parseInt(process.env.MINT_RECONCILE_INTERVAL_MS || '60000', 10),
+      parseInt(process.env.MINT_JOB_STALE_MS || '900000', 10)
+    );
+
+    if (MINT_COUNT_WATCHER_ENABLED) {
+      getMintCountWatcher().start();
+    }
+    tokenRegistry?.start();
+    if (RPC_HEALTH_MONITOR_ENABLED) {
+      getRpcHealthMonitor().start();
+    }
+    warmRecentTokenConfig(parseInt(process.env.TOKEN_CONFIG_WARM_LIMIT || '100', 10));
 
     const server = app.listen(PORT, () => {
       console.log(`
@@ -1282,14 +2646,14 @@ async function startServer() {
 ║  x402 Token Launchpad Backend                             ║
 ╠═══════════════════════════════════════════════════════════╣
 ║  Status: Running                                          ║
-║  Mode: x402 Payment (BSC Mainnet → BSC Testnet)          ║
+║  Mode: ${`x402 Payment (${PAYMENT_CHAIN.name} → ${MINT_CHAIN.name})`.padEnd(50)}║
 ║  Port: ${PORT.toString().padEnd(50)}║
 ║  Payment Chain: ${PAYMENT_CHAIN.name.padEnd(41)}║
 ║  Mint Chain: ${MINT_CHAIN.name.padEnd(44)}║
 ║  Backend: ${account.address.padEnd(43)}║
 ║  Payment Token: ${PAYMENT_TOKEN_NAME.padEnd(39)}║
 ║  Token Address: ${PAYMENT_TOKEN_ADDRESS.padEnd(39)}║
-║  Mint Price: 0.1 WUSDT                                    ║
+║  Mint Price: ${'Per token (paymentSeed / recipient)'.padEnd(45)}║
 ║  Facilitator: ${FACILITATOR_API_URL.padEnd(43)}║
 ║  Environment: ${(IS_PRODUCTION ? 'Production' : 'Development').padEnd(45)}║
 ╚═══════════════════════════════════════════════════════════╝
@@ -1298,13 +2662,21 @@ async function startServer() {
   console.log('\n📝 Available endpoints:');
   console.log(`  GET  /health                           - Health check`);
   console.log(`  POST /api/mint                         - x402 payment-gated mint endpoint (batched)`);
+  console.log(`  GET  /api/mint/quote                   - Signed price/capacity quote with payment requirements`);
+  console.log(`  GET  /api/tokens/:address              - Token metadata and launch status`);
+  console.log(`  GET  /api/rpc/health                   - RPC endpoint height, latency and error rate`);
+  console.log(`  GET  /api/mint-status/:requestId        - Mint job status and history`);
+  console.log(`  GET  /api/mint-status/:requestId/events - Mint job progress stream (SSE)`);
+  console.log(`  GET  /api/successful-mints             - Successful mints (filters + cursor pagination)`);
+  console.log(`  GET  /api/successful-mints/stats       - Mint count, revenue and unique payers per token`);
   console.log(`  GET  /api/payment/health               - Check x402 facilitator connectivity`);
   console.log(`  GET  /api/redis/health                 - Check Redis connection status`);
   console.log(`  GET  /api/verify/:address              - Check contract verification status`);
   console.log('\n🎯 x402 Payment Flow with Batching:');
   console.log(`  1. POST /api/mint (no X-PAYMENT header) → 402 with X-PAYMENT-OPTIONS`);
   console.log(`  2. Client signs EIP-3009 authorization (${PAYMENT_TOKEN_NAME})`);
-  console.log(`  3. POST /api/mint (with X-PAYMENT) → Facilitator verify & settle\n`);
+  console.log(`  3. POST /api/mint (with X-PAYMENT) → Facilitator verify & settle → batchMint`);
+  console.log(`     Add "Prefer: respond-async" to get 202 + job ID and follow /api/mint-status/:requestId/events\n`);
     });
 
     // Graceful shutdown handling
@@ -1315,8 +2687,32 @@ async function startServer() {
   try {
     await shutdownBatchSettleManager();
     console.log('✅ Batch settle manager shut down');
-  } catch (error: any) {
-    console.error('❌ Error shutting down batch settle manager:', error.message);
+  } catch (error) {
+    console.error('❌ Error shutting down batch settle manager:', errorMessage(error));
+  }
+
+  // Wait for in-flight mints
+  try {
+    await shutdownMintExecutor();
+  } catch (error) {
+    console.error('❌ Error shutting down mint executor:', errorMessage(error));
+  }
+
+  // Stop mint count watcher and token registry (release leader locks)
+  try {
+    await shutdownMintCountWatcher();
+    await shutdownTokenRegistry();
+    shutdownRpcHealthMonitor();
+    await shutdownCapacityStreamHub();
+  } catch (error) {
+    console.error('❌ Error shutting down chain watchers:', errorMessage(error));
+  }
+
+  // Close mint job store
+  try {
+    await closeMintJobStore();
+  } catch (error) {
+    console.error('❌ Error closing mint job store:', errorMessage(error));
   }
 
   // Import RedisConnectionManager for shutdown
@@ -1326,8 +2722,8 @@ async function startServer() {
   try {
     await RedisConnectionManager.disconnect();
     console.log('✅ Redis connections closed');
-  } catch (error: any) {
-    console.error('❌ Error closing Redis connections:', error.message);
+  } catch (error) {
+    console.error('❌ Error closing Redis connections:', errorMessage(error));
   }
 
   server.close(() => {
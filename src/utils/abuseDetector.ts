@@ -5,6 +5,7 @@
 
 import { Redis } from 'ioredis';
 import { RedisConnectionManager } from './redisConnectionPool.js';
+import { errorMessage } from './errors.js';
 
 export interface AbuseConfig {
   maxRequestsPerWindow: number;  // Maximum requests allowed in time window
@@ -108,8 +109,8 @@ export class AbuseDetector {
 
       console.log(`✅ AbuseDetector - Request allowed for ${key}: ${count}/${this.config.maxRequestsPerWindow}`);
       return { allowed: true };
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Error recording request:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Error recording request:`, errorMessage(error));
       // On error, allow the request (fail open)
       return { allowed: true };
     }
@@ -126,8 +127,8 @@ export class AbuseDetector {
     try {
       await redis.set(key, '1', 'PX', this.config.banDurationMs);
       console.log(`🚫 AbuseDetector - Banned ${identifier} for ${this.config.banDurationMs / 1000}s`);
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Failed to ban ${identifier}:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Failed to ban ${identifier}:`, errorMessage(error));
     }
   }
 
@@ -142,8 +143,8 @@ export class AbuseDetector {
     try {
       const result = await redis.exists(key);
       return result === 1;
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Error checking ban status:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Error checking ban status:`, errorMessage(error));
       return false;
     }
   }
@@ -161,8 +162,8 @@ export class AbuseDetector {
     try {
       await redis.set(key, '1', 'PX', duration);
       console.log(`🚫 AbuseDetector - Manually banned ${identifier} for ${duration / 1000}s`);
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Failed to manually ban ${identifier}:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Failed to manually ban ${identifier}:`, errorMessage(error));
     }
   }
 
@@ -179,8 +180,8 @@ export class AbuseDetector {
       
       await redis.del(countKey, banKey);
       console.log(`✅ AbuseDetector - Unbanned ${identifier}`);
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Failed to unban ${identifier}:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Failed to unban ${identifier}:`, errorMessage(error));
     }
   }
 
@@ -195,8 +196,8 @@ export class AbuseDetector {
     try {
       const count = await redis.get(key);
       return count ? parseInt(count, 10) : 0;
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Error getting request count:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Error getting request count:`, errorMessage(error));
       return 0;
     }
   }
@@ -216,8 +217,8 @@ export class AbuseDetector {
     try {
       await redis.set(whitelistKey, '1');
       console.log(`✅ AbuseDetector - Added to whitelist: ${key}`);
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Error adding to whitelist:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Error adding to whitelist:`, errorMessage(error));
       throw error;
     }
   }
@@ -237,8 +238,8 @@ export class AbuseDetector {
     try {
       await redis.del(whitelistKey);
       console.log(`✅ AbuseDetector - Removed from whitelist: ${key}`);
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Error removing from whitelist:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Error removing from whitelist:`, errorMessage(error));
       throw error;
     }
   }
@@ -272,8 +273,8 @@ export class AbuseDetector {
         isWhitelisted,
         banTimeRemaining: isBanned && banTTL > 0 ? banTTL : undefined,
       };
-    } catch (error: any) {
-      console.error(`❌ AbuseDetector - Error getting stats:`, error.message);
+    } catch (error) {
+      console.error(`❌ AbuseDetector - Error getting stats:`, errorMessage(error));
       return { requestCount: 0, isBanned: false, isWhitelisted: false };
     }
   }
@@ -3,14 +3,15 @@
  * Manages batch submission of settle requests, implementing automatic nonce management and concurrent processing
  */
 
-// Temporary type definitions (importing from x402 would be better, but simplified here)
-type PaymentPayload = any;
+import type { PaymentPayload, PaymentRequirements } from 'x402/types';
+import { errorMessage } from './errors.js';
 
 export interface SettleItem {
   requestId: string;
   paymentPayload: PaymentPayload;
-  paymentRequirements: any;
+  paymentRequirements: PaymentRequirements;
   timestamp: number;
+  onSettling?: () => void;    // Called when the item's batch is sent to the facilitator
 }
 
 export interface SettleResult {
@@ -64,7 +65,8 @@ export class BatchSettleManager {
   async addToQueue(
     requestId: string,
     paymentPayload: PaymentPayload,
-    paymentRequirements: any
+    paymentRequirements: PaymentRequirements,
+    onSettling?: () => void
   ): Promise<SettleResult> {
     return new Promise((resolve, reject) => {
       // Add to queue
@@ -73,6 +75,7 @@ export class BatchSettleManager {
         paymentPayload,
         paymentRequirements,
         timestamp: Date.now(),
+        onSettling,
       });
 
       // Save promise callbacks
@@ -118,6 +121,14 @@ export class BatchSettleManager {
     console.log(`\n🔄 Processing batch: ${batchItems.length} items`);
     console.log(`   Request IDs: ${batchIds.join(', ')}`);
 
+    for (const item of batchItems) {
+      try {
+        item.onSettling?.();
+      } catch (error) {
+        console.error(`⚠️ [${item.requestId}] onSettling callback failed:`, errorMessage(error));
+      }
+    }
+
     try {
       // Call facilitator batch settle
       const results = await this.batchSettle(batchItems);
@@ -141,14 +152,14 @@ export class BatchSettleManager {
       }
 
       console.log(`✅ Batch processed successfully\n`);
-    } catch (error: any) {
-      console.error(`❌ Batch processing failed:`, error.message);
+    } catch (error) {
+      console.error(`❌ Batch processing failed:`, errorMessage(error));
       
       // All requests failed
       for (const item of batchItems) {
         const promise = this.pendingPromises.get(item.requestId);
         if (promise) {
-          promise.reject(error);
+          promise.reject(error as Error);
           this.queue.delete(item.requestId);
           this.pendingPromises.delete(item.requestId);
         }
@@ -191,8 +202,8 @@ export class BatchSettleManager {
           
           const result = await verifyResponse.json() as { isValid: boolean; invalidReason?: string };
           return { item, valid: result.isValid, reason: result.invalidReason };
-        } catch (error: any) {
-          return { item, valid: false, reason: error.message };
+        } catch (error) {
+          return { item, valid: false, reason: errorMessage(error) };
         }
       })
     );
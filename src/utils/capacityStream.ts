@@ -0,0 +1,211 @@
+/**
+ * Capacity Stream
+ * Fans capacity updates out to every connected client of a token from one Redis subscription per token
+ * Publishers (PendingMintTracker, MintCountWatcher) only announce that something changed;
+ * the hub reloads capacity once per announcement and pushes it to all listeners
+ */
+
+import type { Address } from 'viem';
+import { Redis } from 'ioredis';
+import { errorMessage } from './errors.js';
+
+export const CAPACITY_UPDATES_PREFIX = 'capacity_updates:';
+
+export type CapacityUpdateSource = 'pending' | 'mint_count';
+export type CapacitySnapshot = Record<string, unknown>;
+type CapacityListener = (snapshot: CapacitySnapshot) => void;
+
+export interface CapacityStreamHubOptions {
+  redisUrl?: string;
+  loadSnapshot: (tokenAddress: Address) => Promise<CapacitySnapshot>;
+  refreshInterval?: number;   // Periodic reload (hold expiry isn't announced; also the only source without Redis)
+}
+
+interface TokenChannel {
+  tokenAddress: Address;
+  listeners: Set<CapacityListener>;
+  lastSnapshot: CapacitySnapshot | null;
+  lastSerialized: string | null;
+  refreshing: boolean;
+  refreshQueued: boolean;
+  refreshTimer: NodeJS.Timeout;
+}
+
+/**
+ * Announce a capacity change for a token (failures are logged, never thrown)
+ */
+export async function publishCapacityUpdate(redis: Redis | null, tokenAddress: string, source: CapacityUpdateSource): Promise<void> {
+  try {
+    await redis?.publish(CAPACITY_UPDATES_PREFIX + tokenAddress.toLowerCase(), JSON.stringify({ source, at: Date.now() }));
+  } catch (error) {
+    console.error(`❌ Failed to publish capacity update for ${tokenAddress}:`, errorMessage(error));
+  }
+}
+
+/**
+ * Capacity Stream Hub
+ */
+export class CapacityStreamHub {
+  private subscriber: Redis | null = null;
+  private channels = new Map<string, TokenChannel>();
+
+  private readonly redisUrl: string | undefined;
+  private readonly loadSnapshot: (tokenAddress: Address) => Promise<CapacitySnapshot>;
+  private readonly refreshInterval: number;
+
+  constructor(options: CapacityStreamHubOptions) {
+    this.redisUrl = options.redisUrl;
+    this.loadSnapshot = options.loadSnapshot;
+    this.refreshInterval = options.refreshInterval || 15000;
+  }
+
+  /**
+   * Dedicated connection (a subscribed connection can't run other commands, so it stays out of the pool)
+   */
+  private getSubscriber(): Redis | null {
+    if (!this.subscriber && this.redisUrl) {
+      this.subscriber = new Redis(this.redisUrl, { maxRetriesPerRequest: null });
+      this.subscriber.on('message', (channel: string) => {
+        const entry = this.channels.get(channel.substring(CAPACITY_UPDATES_PREFIX.length));
+        if (entry) {
+          this.refresh(entry);
+        }
+      });
+      this.subscriber.on('error', (error: Error) => {
+        console.error('❌ CapacityStreamHub - Redis subscriber error:', error.message);
+      });
+    }
+    return this.subscriber;
+  }
+
+  /**
+   * Listen to a token's capacity; the current snapshot is delivered right away
+   * @returns Unsubscribe function
+   */
+  async subscribe(tokenAddress: Address, listener: CapacityListener): Promise<() => void> {
+    const key = tokenAddress.toLowerCase();
+    let entry = this.channels.get(key);
+
+    if (!entry) {
+      const created: TokenChannel = {
+        tokenAddress,
+        listeners: new Set(),
+        lastSnapshot: null,
+        lastSerialized: null,
+        refreshing: false,
+        refreshQueued: false,
+        refreshTimer: setInterval(() => this.refresh(created), this.refreshInterval),
+      };
+      entry = created;
+      this.channels.set(key, entry);
+
+      try {
+        await this.getSubscriber()?.subscribe(CAPACITY_UPDATES_PREFIX + key);
+      } catch (error) {
+        console.error(`❌ CapacityStreamHub - Subscribe failed for ${tokenAddress}, falling back to periodic refresh:`, errorMessage(error));
+      }
+    }
+
+    entry.listeners.add(listener);
+
+    if (entry.lastSnapshot) {
+      listener(entry.lastSnapshot);
+    } else {
+      await this.refresh(entry);
+    }
+
+    const channel = entry;
+    return () => this.unsubscribe(key, channel, listener);
+  }
+
+  getStats() {
+    let listeners = 0;
+    for (const entry of this.channels.values()) {
+      listeners += entry.listeners.size;
+    }
+    return { tokens: this.channels.size, listeners };
+  }
+
+  async close(): Promise<void> {
+    for (const entry of this.channels.values()) {
+      clearInterval(entry.refreshTimer);
+    }
+    this.channels.clear();
+
+    if (this.subscriber) {
+      await this.subscriber.quit().catch(() => {});
+      this.subscriber = null;
+    }
+  }
+
+  private unsubscribe(key: string, entry: TokenChannel, listener: CapacityListener) {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size > 0 || this.channels.get(key) !== entry) return;
+
+    clearInterval(entry.refreshTimer);
+    this.channels.delete(key);
+    this.subscriber?.unsubscribe(CAPACITY_UPDATES_PREFIX + key).catch((error: Error) => {
+      console.error(`❌ CapacityStreamHub - Unsubscribe failed for ${entry.tokenAddress}:`, error.message);
+    });
+  }
+
+  /**
+   * Reload capacity and push it to listeners if it changed
+   * Announcements arriving during a reload trigger exactly one more reload
+   */
+  private async refresh(entry: TokenChannel): Promise<void> {
+    if (entry.refreshing) {
+      entry.refreshQueued = true;
+      return;
+    }
+    entry.refreshing = true;
+
+    try {
+      do {
+        entry.refreshQueued = false;
+        const snapshot = await this.loadSnapshot(entry.tokenAddress);
+        const serialized = JSON.stringify(snapshot);
+        if (serialized !== entry.lastSerialized) {
+          entry.lastSnapshot = snapshot;
+          entry.lastSerialized = serialized;
+          for (const listener of entry.listeners) {
+            listener(snapshot);
+          }
+        }
+      } while (entry.refreshQueued);
+    } catch (error) {
+      console.error(`❌ CapacityStreamHub - Failed to load capacity for ${entry.tokenAddress}:`, errorMessage(error));
+    } finally {
+      entry.refreshing = false;
+    }
+  }
+}
+
+// Singleton instance
+let capacityStreamHubInstance: CapacityStreamHub | null = null;
+
+/**
+ * Get CapacityStreamHub singleton
+ */
+export function getCapacityStreamHub(options?: CapacityStreamHubOptions): CapacityStreamHub {
+  if (!capacityStreamHubInstance && options) {
+    capacityStreamHubInstance = new CapacityStreamHub(options);
+  }
+
+  if (!capacityStreamHubInstance) {
+    throw new Error('CapacityStreamHub not initialized. Provide options on first call.');
+  }
+
+  return capacityStreamHubInstance;
+}
+
+/**
+ * Shutdown CapacityStreamHub
+ */
+export async function shutdownCapacityStreamHub(): Promise<void> {
+  if (capacityStreamHubInstance) {
+    await capacityStreamHubInstance.close();
+    capacityStreamHubInstance = null;
+    console.log('✅ CapacityStreamHub shut down');
+  }
+}
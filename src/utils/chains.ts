@@ -0,0 +1,89 @@
+/**
+ * Chains
+ * Payment / mint chain selection from configuration (bsc, bscTestnet or a local dev chain)
+ */
+
+import { type Address, type Chain, defineChain } from 'viem';
+import { bsc, bscTestnet } from 'viem/chains';
+import { BSC_RPC_LIST } from './tools.js';
+
+export type ChainKey = 'bsc' | 'bscTestnet' | 'local';
+
+export interface ChainConfig {
+  key: ChainKey;
+  chain: Chain;
+  network: string;    // x402 network identifier used in payment requirements
+}
+
+const BSC_TESTNET_RPC_LIST = [
+  'https://data-seed-prebsc-1-s1.bnbchain.org:8545',
+  'https://data-seed-prebsc-2-s1.bnbchain.org:8545',
+  'https://bsc-testnet.publicnode.com',
+  'https://bsc-testnet.drpc.org',
+];
+
+// Accepted spellings of each chain key
+const CHAIN_ALIASES: Record<string, ChainKey> = {
+  bsc: 'bsc',
+  'bsc-mainnet': 'bsc',
+  bsctestnet: 'bscTestnet',
+  'bsc-testnet': 'bscTestnet',
+  local: 'local',
+};
+
+let localChain: Chain | null = null;
+
+/**
+ * Local dev chain (anvil / hardhat) from LOCAL_CHAIN_ID and LOCAL_RPC_URL
+ * Multicall3 is only used when LOCAL_MULTICALL3_ADDRESS is set
+ */
+function getLocalChain(): Chain {
+  if (!localChain) {
+    const rpcUrl = process.env.LOCAL_RPC_URL || 'http://127.0.0.1:8545';
+    const multicall3 = process.env.LOCAL_MULTICALL3_ADDRESS as Address | undefined;
+
+    localChain = defineChain({
+      id: parseInt(process.env.LOCAL_CHAIN_ID || '31337', 10),
+      name: 'Local',
+      nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+      rpcUrls: { default: { http: [rpcUrl] } },
+      contracts: multicall3 ? { multicall3: { address: multicall3 } } : undefined,
+      testnet: true,
+    });
+  }
+  return localChain;
+}
+
+/**
+ * Resolve a chain setting (e.g. PAYMENT_CHAIN / MINT_CHAIN)
+ * @throws When the value isn't a supported chain
+ */
+export function resolveChainConfig(value: string | undefined, fallback: ChainKey = 'bsc'): ChainConfig {
+  const key = value ? CHAIN_ALIASES[value.trim().toLowerCase()] : fallback;
+
+  switch (key) {
+    case 'bsc':
+      return { key, chain: bsc, network: 'bsc' };
+    case 'bscTestnet':
+      return { key, chain: bscTestnet, network: 'bsc-testnet' };
+    case 'local':
+      return { key, chain: getLocalChain(), network: process.env.LOCAL_X402_NETWORK || 'local' };
+    default:
+      throw new Error(`Unsupported chain: ${value} (expected one of bsc, bscTestnet, local)`);
+  }
+}
+
+/**
+ * RPC endpoints for a chain (comma separated env override, then the built-in list)
+ */
+export function getChainRpcUrls(chain: Chain): string[] {
+  const fromEnv = (value: string | undefined) => value?.split(',').map(url => url.trim()).filter(Boolean);
+
+  if (chain.id === bsc.id) {
+    return fromEnv(process.env.BSC_RPC_URLS) || [...BSC_RPC_LIST];
+  }
+  if (chain.id === bscTestnet.id) {
+    return fromEnv(process.env.BSC_TESTNET_RPC_URLS) || BSC_TESTNET_RPC_LIST;
+  }
+  return [...chain.rpcUrls.default.http];
+}
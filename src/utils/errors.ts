@@ -0,0 +1,27 @@
+/**
+ * Error helpers
+ * Caught values are `unknown`; these narrow them for logging and error-code checks
+ */
+
+/**
+ * Error with a stable code for the HTTP layer (e.g. CAPACITY_EXCEEDED), plus optional details
+ */
+export interface CodedError extends Error {
+  code?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Message of a caught value
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Code of a caught value (set by CodedError, Node system errors and drivers)
+ */
+export function errorCode(error: unknown): string | undefined {
+  const code = (error as CodedError | null)?.code;
+  return typeof code === 'string' ? code : undefined;
+}
@@ -0,0 +1,112 @@
+/**
+ * Immutable Config Cache
+ * Two-tier (in-process, then Redis) cache for token configuration that never changes after deployment
+ * Concurrent lookups for the same token share a single load
+ */
+
+import { Redis } from 'ioredis';
+import { RedisConnectionManager } from './redisConnectionPool.js';
+import { errorMessage } from './errors.js';
+
+export interface ImmutableConfigCodec<T> {
+  serialize: (value: T) => string;
+  deserialize: (raw: string) => T;
+}
+
+const KEY_PREFIX = 'token_config:';
+
+export class ImmutableConfigCache<T> {
+  private memory = new Map<string, T>();
+  private inFlight = new Map<string, Promise<T>>();
+  private redis: Redis | null = null;
+
+  /**
+   * @param name Config name, part of the Redis key (token_config:<chainId>:<name>:<token>)
+   * @param chainId Chain the tokens live on (the same address can be a different contract elsewhere)
+   */
+  constructor(
+    private readonly name: string,
+    private readonly chainId: number,
+    private readonly codec: ImmutableConfigCodec<T>,
+    private readonly redisUrl?: string
+  ) {}
+
+  private async ensureConnection(): Promise<Redis | null> {
+    if (!this.redis && this.redisUrl) {
+      this.redis = await RedisConnectionManager.getConnection(this.redisUrl);
+    }
+    return this.redis;
+  }
+
+  /**
+   * Get a value: memory → Redis → loader (result stored in both tiers, no expiry)
+   */
+  async get(tokenAddress: string, loader: () => Promise<T>): Promise<T> {
+    const cacheKey = tokenAddress.toLowerCase();
+    const cached = this.memory.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.load(cacheKey, loader).finally(() => this.inFlight.delete(cacheKey));
+    this.inFlight.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Store a value known from another source (e.g. the factory's TokenCreated event)
+   */
+  async prime(tokenAddress: string, value: T): Promise<void> {
+    const cacheKey = tokenAddress.toLowerCase();
+    this.memory.set(cacheKey, value);
+    await this.writeShared(cacheKey, value);
+  }
+
+  /**
+   * Drop the in-process value (for testing only)
+   */
+  clear(tokenAddress?: string) {
+    if (tokenAddress) {
+      this.memory.delete(tokenAddress.toLowerCase());
+    } else {
+      this.memory.clear();
+    }
+  }
+
+  private async load(cacheKey: string, loader: () => Promise<T>): Promise<T> {
+    try {
+      const redis = await this.ensureConnection();
+      const raw = await redis?.get(this.redisKey(cacheKey));
+      if (raw) {
+        const value = this.codec.deserialize(raw);
+        this.memory.set(cacheKey, value);
+        return value;
+      }
+    } catch (error) {
+      console.error(`❌ ImmutableConfigCache(${this.name}) - Redis read failed for ${cacheKey}:`, errorMessage(error));
+    }
+
+    const value = await loader();
+    this.memory.set(cacheKey, value);
+    await this.writeShared(cacheKey, value);
+    return value;
+  }
+
+  private async writeShared(cacheKey: string, value: T) {
+    try {
+      const redis = await this.ensureConnection();
+      await redis?.set(this.redisKey(cacheKey), this.codec.serialize(value));
+    } catch (error) {
+      console.error(`❌ ImmutableConfigCache(${this.name}) - Redis write failed for ${cacheKey}:`, errorMessage(error));
+    }
+  }
+
+  private redisKey(cacheKey: string): string {
+    return `${KEY_PREFIX}${this.chainId}:${this.name}:${cacheKey}`;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Launch Phase Gate
+ * Refuses mints once a token's launch is over (liquidity deployed, deadline passed or fully minted)
+ */
+
+import type { Address } from 'viem';
+import { type TokenInfoService, type TokenLaunchStatus, type TokenOnChainState, getTokenLaunchStatus } from './tokenInfo.js';
+
+export type LaunchClosedReason = 'liquidity_deployed' | 'deadline_passed' | 'filled';
+
+export type LaunchPhaseCheck =
+  | { open: true; state: TokenOnChainState; status: TokenLaunchStatus }
+  | { open: false; reason: LaunchClosedReason; state: TokenOnChainState; status: TokenLaunchStatus };
+
+const CLOSED_REASONS: Record<Exclude<TokenLaunchStatus['phase'], 'open'>, LaunchClosedReason> = {
+  liquidity_deployed: 'liquidity_deployed',
+  expired: 'deadline_passed',
+  filled: 'filled',
+};
+
+/**
+ * LaunchPhaseGate
+ * Every closed phase is final (liquidity stays deployed, deadlines don't move, mintCount never drops),
+ * so closed results are cached permanently. Open tokens go through TokenInfoService's short cache,
+ * which is invalidated when the mint count changes.
+ */
+export class LaunchPhaseGate {
+  private closed = new Map<string, LaunchPhaseCheck & { open: false }>();
+
+  constructor(private tokenInfoService: TokenInfoService) {}
+
+  async check(tokenAddress: Address): Promise<LaunchPhaseCheck> {
+    const cacheKey = tokenAddress.toLowerCase();
+    const closed = this.closed.get(cacheKey);
+    if (closed) {
+      return { ...closed, status: getTokenLaunchStatus(closed.state) };
+    }
+
+    const state = await this.tokenInfoService.getTokenState(tokenAddress);
+    const status = getTokenLaunchStatus(state);
+
+    if (status.phase === 'open') {
+      return { open: true, state, status };
+    }
+
+    const result = { open: false as const, reason: CLOSED_REASONS[status.phase], state, status };
+    this.closed.set(cacheKey, result);
+    return result;
+  }
+
+  /**
+   * Drop cached state (called after a mint confirms or the mint count changes)
+   */
+  invalidate(tokenAddress: Address) {
+    this.tokenInfoService.invalidate(tokenAddress);
+  }
+}
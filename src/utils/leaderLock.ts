@@ -0,0 +1,73 @@
+/**
+ * Leader Lock
+ * Redis lock that lets one instance do shared background work (chain indexing, polling)
+ */
+
+import { randomUUID } from 'crypto';
+import { Redis } from 'ioredis';
+import { errorMessage } from './errors.js';
+
+// Renew the lock only if this instance still owns it
+const RENEW_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+// Release the lock only if this instance still owns it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export class LeaderLock {
+  readonly instanceId = randomUUID();
+  private leader = false;
+
+  /**
+   * @param key Redis key of the lock
+   * @param ttlMs Lock lifetime - the holder must renew it more often than this
+   * @param name Label used in logs
+   */
+  constructor(private key: string, private ttlMs: number, private name: string) {}
+
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Acquire the lock, or renew it if already held
+   * @returns Whether this instance is the leader
+   */
+  async acquireOrRenew(redis: Redis): Promise<boolean> {
+    if (this.leader) {
+      const renewed = await redis.eval(RENEW_LOCK_SCRIPT, 1, this.key, this.instanceId, this.ttlMs);
+      if (renewed === 1) return true;
+      console.log(`👋 ${this.name} - Lost leadership`);
+      this.leader = false;
+    }
+
+    const acquired = await redis.set(this.key, this.instanceId, 'PX', this.ttlMs, 'NX');
+    if (acquired === 'OK') {
+      console.log(`👑 ${this.name} - Became leader (instance ${this.instanceId.substring(0, 8)})`);
+      this.leader = true;
+    }
+    return this.leader;
+  }
+
+  /**
+   * Give up leadership (on shutdown)
+   */
+  async release(redis: Redis): Promise<void> {
+    if (!this.leader) return;
+    this.leader = false;
+    try {
+      await redis.eval(RELEASE_LOCK_SCRIPT, 1, this.key, this.instanceId);
+    } catch (error) {
+      console.error(`❌ ${this.name} - Failed to release leader lock:`, errorMessage(error));
+    }
+  }
+}
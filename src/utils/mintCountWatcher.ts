@@ -0,0 +1,344 @@
+/**
+ * Mint Count Watcher
+ * Keeps on-chain mintCount of recently active tokens up to date in Redis (one multicall per block,
+ * individual eth_calls on chains without Multicall3)
+ * One instance holds a leader lock and follows blocks; every instance reads the shared values
+ * Followers only retry the lock, so RPC load doesn't grow with the number of replicas
+ */
+
+import { EventEmitter } from 'events';
+import { type Address, type Chain, type PublicClient, type Transport, createPublicClient } from 'viem';
+import { Redis } from 'ioredis';
+import { X402_TOKEN_ABI } from '../contracts.js';
+import { RedisConnectionManager } from './redisConnectionPool.js';
+import { LeaderLock } from './leaderLock.js';
+import { CAPACITY_UPDATES_PREFIX } from './capacityStream.js';
+import { getChainTransport } from './rpcPool.js';
+import { errorMessage } from './errors.js';
+
+export interface MintCountWatcherOptions {
+  chain: Chain;
+  redisUrl?: string;
+  activeTokenTtlMs?: number;  // A token is watched until no mint has reserved capacity for this long
+  valueTtlMs?: number;        // Stored counts expire unless refreshed (readers fall back to polling)
+  leaderLockTtlMs?: number;   // Leader lock lifetime, renewed on every block
+  pollingInterval?: number;   // Block polling interval (milliseconds)
+}
+
+// Per-chain prefix of the shared counts: mint_count:<chainId>:<token> holds a StoredMintCount
+// (also read by PendingMintTracker's reserve script)
+export const MINT_COUNT_PREFIX = 'mint_count:';
+
+interface StoredMintCount {
+  count: number;
+  blockNumber: string;
+  updatedAt: number;
+}
+
+// Store a count unless the stored one was read at a later block (a slow leader refresh must not
+// overwrite a count published right after a mint)
+// KEYS[1] = count key; ARGV[1] = StoredMintCount JSON, ARGV[2] = block number, ARGV[3] = TTL (ms)
+const STORE_COUNT_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and tonumber(cjson.decode(current).blockNumber) > tonumber(ARGV[2]) then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[3])
+return 1
+`;
+
+/**
+ * Mint Count Watcher
+ * Emits 'mint-count-changed' (tokenAddress, count) when this instance observes a new count
+ * The leader also announces changed counts on the token's capacity_updates channel
+ */
+export class MintCountWatcher extends EventEmitter {
+  private redis: Redis | null = null;
+  private publicClient: PublicClient<Transport, Chain>;
+  private readonly hasMulticall: boolean;
+  private unwatch: (() => void) | null = null;
+  private leaderTimer: NodeJS.Timeout | null = null;
+  private tickInProgress = false;
+  private leaderLock: LeaderLock;
+  private lastSeenCounts = new Map<string, number>();
+
+  // Keys are per chain: mint_count:<chainId>:<token>, :active and :leader
+  private readonly keyPrefix: string;
+  private readonly activeTokensKey: string;
+  private readonly redisUrl: string | undefined;
+  private readonly activeTokenTtlMs: number;
+  private readonly valueTtlMs: number;
+  private readonly pollingInterval: number;
+  private readonly leaderCheckInterval: number;
+
+  constructor(options: MintCountWatcherOptions) {
+    super();
+    this.keyPrefix = `${MINT_COUNT_PREFIX}${options.chain.id}:`;
+    this.activeTokensKey = `${this.keyPrefix}active`;
+    this.redisUrl = options.redisUrl;
+    this.activeTokenTtlMs = options.activeTokenTtlMs || 600000;  // 10 minutes
+    this.valueTtlMs = options.valueTtlMs || 15000;               // 15 seconds
+    this.pollingInterval = options.pollingInterval || 1000;
+    const leaderLockTtlMs = options.leaderLockTtlMs || 10000;
+    this.leaderLock = new LeaderLock(`${this.keyPrefix}leader`, leaderLockTtlMs, 'MintCountWatcher');
+    this.leaderCheckInterval = Math.floor(leaderLockTtlMs / 3);
+
+    this.hasMulticall = Boolean(options.chain.contracts?.multicall3);
+    this.publicClient = createPublicClient({
+      chain: options.chain,
+      transport: getChainTransport(options.chain),
+    });
+  }
+
+  private async ensureConnection(): Promise<Redis | null> {
+    if (!this.redis && this.redisUrl) {
+      this.redis = await RedisConnectionManager.getConnection(this.redisUrl);
+    }
+    return this.redis;
+  }
+
+  /**
+   * Start competing for leadership (blocks are followed only while leader)
+   */
+  start() {
+    if (this.leaderTimer) return;
+
+    const tick = async () => {
+      await this.checkLeadership();
+      if (this.leaderTimer) {
+        this.leaderTimer = setTimeout(tick, this.leaderCheckInterval);
+      }
+    };
+    this.leaderTimer = setTimeout(tick, 0);
+
+    console.log(`✅ MintCountWatcher started (instance ${this.leaderLock.instanceId.substring(0, 8)})`);
+  }
+
+  /**
+   * Stop following blocks and give up leadership
+   */
+  async stop(): Promise<void> {
+    if (this.leaderTimer) {
+      clearTimeout(this.leaderTimer);
+      this.leaderTimer = null;
+    }
+    this.stopWatching();
+
+    if (this.redis) {
+      await this.leaderLock.release(this.redis);
+    }
+  }
+
+  /**
+   * Acquire or renew the leader lock, and follow blocks exactly while holding it
+   */
+  private async checkLeadership() {
+    let leader = false;
+    try {
+      const redis = await this.ensureConnection();
+      leader = redis ? await this.leaderLock.acquireOrRenew(redis) : false;
+    } catch (error) {
+      console.error('❌ MintCountWatcher - Leader lock check failed:', errorMessage(error));
+    }
+
+    if (leader && !this.unwatch && this.leaderTimer) {
+      this.startWatching();
+    } else if (!leader && this.unwatch) {
+      this.stopWatching();
+    }
+  }
+
+  private startWatching() {
+    this.unwatch = this.publicClient.watchBlockNumber({
+      emitMissed: false,
+      pollingInterval: this.pollingInterval,
+      onBlockNumber: (blockNumber: bigint) => {
+        this.onBlock(blockNumber);
+      },
+      onError: (error: Error) => {
+        console.error('❌ MintCountWatcher - Block watch error:', error.message);
+      },
+    });
+    console.log(`👀 MintCountWatcher - Following blocks every ${this.pollingInterval}ms`);
+  }
+
+  private stopWatching() {
+    if (this.unwatch) {
+      this.unwatch();
+      this.unwatch = null;
+      console.log('🛑 MintCountWatcher - Stopped following blocks');
+    }
+  }
+
+  /**
+   * Get the shared mintCount for a token (read-only, tokens are watched through markActive)
+   * @returns Count, or null when no fresh value exists (caller should poll the chain)
+   */
+  async getMintCount(tokenAddress: Address): Promise<number | null> {
+    const token = tokenAddress.toLowerCase();
+    try {
+      const redis = await this.ensureConnection();
+      if (!redis) return null;
+
+      const raw = await redis.get(this.keyPrefix + token);
+      if (!raw) return null;
+      const { count } = JSON.parse(raw) as StoredMintCount;
+      this.noteCount(token, count);
+      return count;
+    } catch (error) {
+      console.error(`❌ MintCountWatcher - Failed to read mintCount for ${tokenAddress}:`, errorMessage(error));
+      return null;
+    }
+  }
+
+  /**
+   * Watch a token's mintCount until it hasn't been marked for activeTokenTtlMs
+   * (called when capacity is reserved for a mint)
+   */
+  async markActive(tokenAddress: Address): Promise<void> {
+    try {
+      const redis = await this.ensureConnection();
+      if (!redis) return;
+
+      await redis.zadd(this.activeTokensKey, Date.now(), tokenAddress.toLowerCase());
+    } catch (error) {
+      console.error(`❌ MintCountWatcher - Failed to mark ${tokenAddress} active:`, errorMessage(error));
+    }
+  }
+
+  /**
+   * Publish a count read at a known block (called after a mint, before its capacity hold is released)
+   * @throws When Redis is unreachable - the caller must keep its hold in that case
+   */
+  async publishMintCount(tokenAddress: Address, count: number, blockNumber: bigint): Promise<void> {
+    const redis = await this.ensureConnection();
+    if (!redis) return;
+
+    const token = tokenAddress.toLowerCase();
+    const now = Date.now();
+    const value: StoredMintCount = { count, blockNumber: blockNumber.toString(), updatedAt: now };
+
+    await redis.eval(STORE_COUNT_SCRIPT, 1, this.keyPrefix + token, JSON.stringify(value), value.blockNumber, this.valueTtlMs);
+    await redis.zadd(this.activeTokensKey, now, token);
+    if (this.noteCount(token, count)) {
+      await redis.publish(CAPACITY_UPDATES_PREFIX + token, JSON.stringify({ source: 'mint_count', at: now }));
+    }
+  }
+
+  private async onBlock(blockNumber: bigint) {
+    // Skip blocks while the previous refresh is still running
+    if (this.tickInProgress) return;
+    this.tickInProgress = true;
+
+    try {
+      const redis = await this.ensureConnection();
+      if (!redis || !this.leaderLock.isLeader) return;
+
+      await this.refreshActiveTokens(redis, blockNumber);
+    } catch (error) {
+      console.error(`❌ MintCountWatcher - Refresh failed at block ${blockNumber}:`, errorMessage(error));
+    } finally {
+      this.tickInProgress = false;
+    }
+  }
+
+  /**
+   * @returns Whether the count differs from the last one this instance saw
+   */
+  private noteCount(token: string, count: number): boolean {
+    const previous = this.lastSeenCounts.get(token);
+    this.lastSeenCounts.set(token, count);
+    if (previous !== undefined && previous !== count) {
+      this.emit('mint-count-changed', token as Address, count);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Read mintCount of every active token in one multicall and store the results
+   */
+  private async refreshActiveTokens(redis: Redis, blockNumber: bigint) {
+    const now = Date.now();
+    await redis.zremrangebyscore(this.activeTokensKey, '-inf', now - this.activeTokenTtlMs);
+    const tokens = await redis.zrange(this.activeTokensKey, 0, -1);
+    if (tokens.length === 0) return;
+
+    const results = await this.readMintCounts(tokens as Address[], blockNumber);
+
+    const pipeline = redis.pipeline();
+    results.forEach((result: { status: string; result?: bigint }, index: number) => {
+      if (result.status !== 'success') return;
+      const value: StoredMintCount = {
+        count: Number(result.result),
+        blockNumber: blockNumber.toString(),
+        updatedAt: now,
+      };
+      const changed = this.noteCount(tokens[index], value.count);
+      pipeline.eval(STORE_COUNT_SCRIPT, 1, this.keyPrefix + tokens[index], JSON.stringify(value), value.blockNumber, this.valueTtlMs);
+      if (changed) {
+        pipeline.publish(CAPACITY_UPDATES_PREFIX + tokens[index], JSON.stringify({ source: 'mint_count', at: now }));
+      }
+    });
+    await pipeline.exec();
+  }
+
+  /**
+   * mintCount of each token at a block - one multicall, or individual eth_calls on chains
+   * without Multicall3 (same fallback as ReadAggregator, which can't pin reads to a block)
+   */
+  private async readMintCounts(tokens: Address[], blockNumber: bigint): Promise<{ status: string; result?: bigint }[]> {
+    const contracts = tokens.map(token => ({
+      address: token,
+      abi: X402_TOKEN_ABI,
+      functionName: 'mintCount' as const,
+    }));
+
+    if (this.hasMulticall) {
+      return this.publicClient.multicall({ contracts, blockNumber, allowFailure: true });
+    }
+
+    return Promise.all(contracts.map(async contract => {
+      try {
+        return { status: 'success', result: await this.publicClient.readContract({ ...contract, blockNumber }) as bigint };
+      } catch {
+        return { status: 'failure' };
+      }
+    }));
+  }
+}
+
+// Singleton instance
+let mintCountWatcherInstance: MintCountWatcher | null = null;
+
+/**
+ * Get MintCountWatcher singleton
+ */
+export function getMintCountWatcher(options?: Pick<MintCountWatcherOptions, 'chain' | 'redisUrl'>): MintCountWatcher {
+  if (!mintCountWatcherInstance && options) {
+    mintCountWatcherInstance = new MintCountWatcher({
+      ...options,
+      activeTokenTtlMs: parseInt(process.env.MINT_COUNT_ACTIVE_TTL_MS || '600000', 10),
+      valueTtlMs: parseInt(process.env.MINT_COUNT_VALUE_TTL_MS || '15000', 10),
+      pollingInterval: parseInt(process.env.MINT_COUNT_POLLING_INTERVAL_MS || '1000', 10),
+    });
+  }
+
+  if (!mintCountWatcherInstance) {
+    throw new Error('MintCountWatcher not initialized. Provide options on first call.');
+  }
+
+  return mintCountWatcherInstance;
+}
+
+/**
+ * Shutdown MintCountWatcher
+ */
+export async function shutdownMintCountWatcher(): Promise<void> {
+  if (mintCountWatcherInstance) {
+    console.log('🛑 Shutting down MintCountWatcher...');
+    await mintCountWatcherInstance.stop();
+    mintCountWatcherInstance = null;
+    console.log('✅ MintCountWatcher shut down');
+  }
+}
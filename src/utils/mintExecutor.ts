@@ -0,0 +1,333 @@
+/**
+ * Mint Executor
+ * Executes batchMint on the mint chain once a payment has settled
+ */
+
+import PQueue from 'p-queue';
+import {
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+  BaseError,
+  ContractFunctionRevertedError,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  createPublicClient,
+  createWalletClient,
+  encodePacked,
+  keccak256,
+  nonceManager,
+} from 'viem';
+import { type PrivateKeyAccount, privateKeyToAccount } from 'viem/accounts';
+import { X402_TOKEN_ABI } from '../contracts.js';
+import { getChainTransport } from './rpcPool.js';
+import { errorMessage } from './errors.js';
+
+export interface MintResult {
+  requestId: string;
+  success: boolean;
+  pending?: boolean;          // Sent, but no receipt in time - it may still land (resolved by checkMint)
+  transaction?: Hex;
+  blockNumber?: bigint;
+  mintKeys: Hex[];
+  error?: string;
+  reason?: string;
+}
+
+/**
+ * On-chain outcome of a sent mint transaction
+ */
+export type MintCheckResult =
+  | { status: 'confirmed' | 'reverted'; blockNumber: bigint }
+  | { status: 'pending' }       // Known to the node but not (sufficiently) confirmed
+  | { status: 'unknown' };      // Neither mined nor known to the node (dropped, or not propagated yet)
+
+export type MintPrecheckResult =
+  | { ok: true; skipped?: boolean }
+  | { ok: false; reason: string; error: string };
+
+export interface MintExecutorOptions {
+  privateKey: Hex;
+  chain: Chain;
+  concurrency?: number;       // Maximum number of mint transactions in flight
+  confirmations?: number;     // Confirmations to wait for before reporting success
+  receiptTimeout?: number;    // Receipt wait timeout (milliseconds)
+}
+
+/**
+ * Derive the per-recipient mint keys for a payment from its EIP-3009 authorization
+ * Keys are not the settlement tx hash: that hash only exists after settling, but the precheck must
+ * simulate batchMint with the final keys before the payer is charged. payer + nonce identifies the
+ * authorization just as uniquely (the asset rejects a reused nonce) and is known upfront, so the
+ * precheck and the real batchMint use the same keys. The contract records each key in hasMinted,
+ * so an authorization can never be minted twice.
+ */
+export function deriveMintKeys(from: Address, nonce: Hex, count: number): Hex[] {
+  const paymentKey = keccak256(encodePacked(['address', 'bytes32'], [from, nonce]));
+  return Array.from({ length: count }, (_, index) =>
+    keccak256(encodePacked(['bytes32', 'uint256'], [paymentKey, BigInt(index)]))
+  );
+}
+
+/**
+ * Map a contract revert to a stable reason code
+ */
+export function getMintFailureReason(message: string | undefined): string {
+  if (message?.includes('AlreadyMinted')) return 'already_minted';
+  if (message?.includes('MaxMintCountExceeded')) return 'max_mint_count_exceeded';
+  if (message?.includes('LiquidityDeployed') || message?.includes('LiquidityAlreadyDeployed')) return 'liquidity_deployed';
+  return 'mint_failed';
+}
+
+/**
+ * Mint Executor
+ */
+export class MintExecutor {
+  private queue: PQueue;
+  private publicClient: PublicClient<Transport, Chain>;
+  private walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>;
+
+  private readonly confirmations: number;
+  private readonly receiptTimeout: number;
+
+  constructor(options: MintExecutorOptions) {
+    // nonceManager keeps concurrent submissions from the minter wallet on distinct nonces
+    const account = privateKeyToAccount(options.privateKey, { nonceManager });
+    const transport = getChainTransport(options.chain);
+
+    this.publicClient = createPublicClient({
+      chain: options.chain,
+      transport,
+    });
+    this.walletClient = createWalletClient({
+      account,
+      chain: options.chain,
+      transport,
+    });
+
+    this.queue = new PQueue({ concurrency: options.concurrency || 5 });
+    this.confirmations = options.confirmations || 1;
+    this.receiptTimeout = options.receiptTimeout || 120000;
+
+    console.log(`✅ MintExecutor initialized:`);
+    console.log(`   Minter: ${account.address}`);
+    console.log(`   Concurrency: ${options.concurrency || 5}`);
+    console.log(`   Confirmations: ${this.confirmations}`);
+  }
+
+  /**
+   * Check the contract's mint preconditions before the payment is settled
+   * (liquidity not yet deployed, mint keys unused, batchMint simulation succeeds)
+   * RPC failures fail open - only a contract rejection blocks the request
+   */
+  async precheckMint(tokenAddress: Address, recipients: Address[], mintKeys: Hex[]): Promise<MintPrecheckResult> {
+    try {
+      const [liquidityDeployed, ...minted] = await Promise.all([
+        this.publicClient.readContract({
+          address: tokenAddress,
+          abi: X402_TOKEN_ABI,
+          functionName: 'liquidityDeployed',
+        }) as Promise<boolean>,
+        ...mintKeys.map(key => this.publicClient.readContract({
+          address: tokenAddress,
+          abi: X402_TOKEN_ABI,
+          functionName: 'hasMinted',
+          args: [key],
+        }) as Promise<boolean>),
+      ]);
+
+      if (liquidityDeployed) {
+        return { ok: false, reason: 'liquidity_deployed', error: 'Liquidity has been deployed, minting is closed' };
+      }
+      if (minted.some(Boolean)) {
+        return { ok: false, reason: 'already_minted', error: 'Mint key already used' };
+      }
+
+      await this.publicClient.simulateContract({
+        account: this.walletClient.account,
+        address: tokenAddress,
+        abi: X402_TOKEN_ABI,
+        functionName: 'batchMint',
+        args: [recipients, mintKeys],
+      });
+
+      return { ok: true };
+    } catch (error) {
+      const revert = error instanceof BaseError
+        ? error.walk(e => e instanceof ContractFunctionRevertedError)
+        : null;
+
+      if (revert) {
+        const reverted = revert as ContractFunctionRevertedError;
+        const message = reverted.data?.errorName || reverted.reason || reverted.shortMessage;
+        console.log(`   ❌ batchMint simulation reverted: ${message}`);
+        return { ok: false, reason: getMintFailureReason(message), error: message };
+      }
+
+      console.error(`   ⚠️ Mint precheck unavailable, continuing:`, (error as BaseError).shortMessage || errorMessage(error));
+      return { ok: true, skipped: true };
+    }
+  }
+
+  /**
+   * Mint to the recipients of a settled payment, using the mint keys the precheck ran with
+   * Never throws - failures are reported through MintResult
+   */
+  async executeMint(
+    requestId: string,
+    tokenAddress: Address,
+    recipients: Address[],
+    mintKeys: Hex[],
+    paymentTxHash: Hex
+  ): Promise<MintResult> {
+    console.log(`📥 [${requestId}] Added to mint queue (pending: ${this.queue.size + this.queue.pending})`);
+
+    return this.queue.add(async () => {
+      let transaction: Hex | undefined;
+      try {
+        console.log(`🪙 [${requestId}] Minting ${recipients.length} to ${tokenAddress} (payment: ${paymentTxHash.substring(0, 10)}...)`);
+
+        transaction = await this.walletClient.writeContract({
+          address: tokenAddress,
+          abi: X402_TOKEN_ABI,
+          functionName: 'batchMint',
+          args: [recipients, mintKeys],
+        }) as Hex;
+        console.log(`   📡 [${requestId}] Mint transaction sent: ${transaction}`);
+
+        const receipt = await this.publicClient.waitForTransactionReceipt({
+          hash: transaction,
+          confirmations: this.confirmations,
+          timeout: this.receiptTimeout,
+        });
+
+        if (receipt.status !== 'success') {
+          console.error(`   ❌ [${requestId}] Mint transaction reverted: ${transaction}`);
+          return {
+            requestId,
+            success: false,
+            transaction,
+            blockNumber: receipt.blockNumber,
+            mintKeys,
+            error: 'Mint transaction reverted',
+            reason: 'mint_reverted',
+          };
+        }
+
+        console.log(`   ✅ [${requestId}] Mint confirmed in block ${receipt.blockNumber}`);
+        return {
+          requestId,
+          success: true,
+          transaction,
+          blockNumber: receipt.blockNumber,
+          mintKeys,
+        };
+      } catch (error) {
+        const message = (error as BaseError).shortMessage || errorMessage(error);
+        if (transaction) {
+          // Receipt timeout or RPC failure after sending - the outcome is unknown, not failed
+          console.warn(`   ⏳ [${requestId}] No receipt for mint ${transaction}, outcome pending:`, message);
+          return {
+            requestId,
+            success: false,
+            pending: true,
+            transaction,
+            mintKeys,
+            error: message,
+            reason: 'mint_unconfirmed',
+          };
+        }
+
+        console.error(`   ❌ [${requestId}] Mint failed:`, message);
+        return {
+          requestId,
+          success: false,
+          transaction,
+          mintKeys,
+          error: message,
+          reason: getMintFailureReason(errorMessage(error)),
+        };
+      }
+    }) as Promise<MintResult>;
+  }
+
+  /**
+   * Look up the outcome of a mint transaction whose receipt was not seen by executeMint
+   * @throws When the RPC can't be reached (check again later)
+   */
+  async checkMint(transaction: Hex): Promise<MintCheckResult> {
+    try {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash: transaction });
+      const confirmations = await this.publicClient.getTransactionConfirmations({ transactionReceipt: receipt });
+      if (confirmations < BigInt(this.confirmations)) {
+        return { status: 'pending' };
+      }
+      return { status: receipt.status === 'success' ? 'confirmed' : 'reverted', blockNumber: receipt.blockNumber };
+    } catch (error) {
+      if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+    }
+
+    try {
+      await this.publicClient.getTransaction({ hash: transaction });
+      return { status: 'pending' };
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) return { status: 'unknown' };
+      throw error;
+    }
+  }
+
+  /**
+   * Get queue status
+   */
+  getStatus() {
+    return {
+      queued: this.queue.size,
+      inFlight: this.queue.pending,
+    };
+  }
+
+  /**
+   * Wait for all queued mints to finish
+   */
+  async drain(): Promise<void> {
+    await this.queue.onIdle();
+  }
+}
+
+// Singleton instance
+let mintExecutorInstance: MintExecutor | null = null;
+
+/**
+ * Get MintExecutor singleton
+ */
+export function getMintExecutor(options?: Omit<MintExecutorOptions, 'concurrency' | 'confirmations' | 'receiptTimeout'>): MintExecutor {
+  if (!mintExecutorInstance && options) {
+    mintExecutorInstance = new MintExecutor({
+      ...options,
+      concurrency: parseInt(process.env.MINT_CONCURRENCY || '5', 10),
+      confirmations: parseInt(process.env.MINT_CONFIRMATIONS || '1', 10),
+      receiptTimeout: parseInt(process.env.MINT_RECEIPT_TIMEOUT || '120000', 10),
+    });
+  }
+
+  if (!mintExecutorInstance) {
+    throw new Error('MintExecutor not initialized. Provide options on first call.');
+  }
+
+  return mintExecutorInstance;
+}
+
+/**
+ * Shutdown MintExecutor
+ */
+export async function shutdownMintExecutor(): Promise<void> {
+  if (mintExecutorInstance) {
+    console.log('🛑 Shutting down MintExecutor...');
+    await mintExecutorInstance.drain();
+    mintExecutorInstance = null;
+    console.log('✅ MintExecutor shut down');
+  }
+}
@@ -0,0 +1,830 @@
+/**
+ * Mint Job Store
+ * Persists the lifecycle of every mint request (SQLite by default, PostgreSQL when DATABASE_URL is set)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import Database from 'better-sqlite3';
+import pg from 'pg';
+import type { Hex } from 'viem';
+import { type CodedError, errorMessage } from './errors.js';
+import type { MintCheckResult } from './mintExecutor.js';
+
+export type MintJobStatus =
+  | 'payment_required'
+  | 'verified'
+  | 'queued'
+  | 'settling'
+  | 'settled'
+  | 'mint_pending'        // Mint sent, receipt not seen in time (resolved by reconciliation)
+  | 'minted'
+  | 'failed';
+
+export interface MintJob {
+  requestId: string;
+  status: MintJobStatus;
+  tokenAddress: string;
+  recipients: string[];
+  payer: string | null;
+  amount: string | null;
+  paymentAsset: string | null;     // EIP-3009 asset the amount is denominated in
+  paymentDecimals: number | null;
+  paymentTxHash: string | null;
+  mintTxHash: string | null;
+  error: string | null;
+  errorReason: string | null;
+  createdAt: number;
+  updatedAt: number;
+  settledAt: number | null;
+  mintedAt: number | null;
+}
+
+export interface MintJobEvent {
+  status: MintJobStatus;
+  detail: string | null;
+  createdAt: number;
+}
+
+export interface NewMintJob {
+  requestId: string;
+  status: MintJobStatus;
+  tokenAddress: string;
+  recipients: string[];
+  payer?: string;
+  amount?: bigint | string;
+  paymentAsset?: string;
+  paymentDecimals?: number;
+  error?: string;
+  errorReason?: string;
+}
+
+/**
+ * Payload of the 'job-updated' event
+ */
+export interface MintJobUpdatedEvent extends MintJobUpdate {
+  requestId: string;
+  updatedAt: number;
+}
+
+export const TERMINAL_MINT_JOB_STATUSES: ReadonlySet<MintJobStatus> = new Set(['minted', 'failed']);
+
+export interface MintJobUpdate {
+  status: MintJobStatus;
+  payer?: string;
+  amount?: bigint | string;
+  paymentAsset?: string;
+  paymentDecimals?: number;
+  paymentTxHash?: string;
+  mintTxHash?: string;
+  error?: string;
+  errorReason?: string;
+}
+
+export interface SuccessfulMintFilter {
+  tokenAddress?: string;
+  payer?: string;
+  from?: number;   // minted_at lower bound (ms, inclusive)
+  to?: number;     // minted_at upper bound (ms, inclusive)
+}
+
+export interface SuccessfulMintPage {
+  items: MintJob[];
+  nextCursor: string | null;
+}
+
+/**
+ * Revenue in one payment asset (amounts of different assets are never added together)
+ */
+export interface AssetRevenue {
+  paymentAsset: string | null;     // null for jobs recorded before the asset was stored
+  paymentDecimals: number | null;
+  amount: bigint;
+}
+
+export interface TokenMintStats {
+  tokenAddress: string;
+  totalMints: number;
+  revenue: AssetRevenue[];
+  uniquePayers: number;
+}
+
+export interface MintStats {
+  totalMints: number;
+  revenue: AssetRevenue[];
+  uniquePayers: number;
+  tokens: TokenMintStats[];
+}
+
+/**
+ * mint_jobs row (BIGINT and NUMERIC columns come back as strings from PostgreSQL)
+ */
+interface MintJobRow {
+  request_id: string;
+  status: MintJobStatus;
+  token_address: string;
+  recipients: string;
+  payer: string | null;
+  amount: string | number | null;
+  payment_asset: string | null;
+  payment_decimals: number | string | null;
+  payment_tx_hash: string | null;
+  mint_tx_hash: string | null;
+  error: string | null;
+  error_reason: string | null;
+  created_at: number | string;
+  updated_at: number | string;
+  settled_at: number | string | null;
+  minted_at: number | string | null;
+}
+
+type CountValue = number | string;
+
+/**
+ * Minimal SQL driver shared by the SQLite and PostgreSQL backends
+ * Queries are written with `?` placeholders and rewritten per dialect
+ */
+interface SqlDriver {
+  readonly dialect: 'sqlite' | 'postgres';
+  query<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+  execute(sql: string, params?: unknown[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+class SqliteDriver implements SqlDriver {
+  readonly dialect = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+  }
+
+  async query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return this.db.prepare(sql).all(...params) as T[];
+  }
+
+  async execute(sql: string, params: unknown[] = []): Promise<void> {
+    if (params.length === 0) {
+      this.db.exec(sql);
+      return;
+    }
+    this.db.prepare(sql).run(...params);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+class PostgresDriver implements SqlDriver {
+  readonly dialect = 'postgres' as const;
+  private pool: pg.Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({
+      connectionString,
+      max: parseInt(process.env.DATABASE_POOL_MAX || '10', 10),
+    });
+  }
+
+  private toPositional(sql: string): string {
+    let index = 0;
+    return sql.replace(/\?/g, () => `$${++index}`);
+  }
+
+  async query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const result = await this.pool.query(this.toPositional(sql), params);
+    return result.rows as T[];
+  }
+
+  async execute(sql: string, params: unknown[] = []): Promise<void> {
+    await this.pool.query(this.toPositional(sql), params);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Unsuccessful statuses removed by the retention purge (402s that were never paid, and failures)
+ */
+export type PurgeableMintJobStatus = 'payment_required' | 'failed';
+
+// Jobs still being processed; one left in these statuses long after its last update lost its process
+const IN_FLIGHT_STATUSES = `'verified', 'queued', 'settling', 'settled'`;
+
+const TIMESTAMP_FIELDS: Partial<Record<MintJobStatus, string>> = {
+  settled: 'settled_at',
+  minted: 'minted_at',
+};
+
+/**
+ * Mint job store
+ * Writes never throw (a storage outage must not block minting), reads do
+ * Emits 'job-updated' (MintJobUpdatedEvent) for every status change made by this process
+ */
+export class MintJobStore extends EventEmitter {
+  private driver: SqlDriver;
+  private purgeTimer: NodeJS.Timeout | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+
+  constructor(driver: SqlDriver) {
+    super();
+    // One listener per open status stream
+    this.setMaxListeners(0);
+    this.driver = driver;
+  }
+
+  get dialect(): 'sqlite' | 'postgres' {
+    return this.driver.dialect;
+  }
+
+  /**
+   * Create tables if they do not exist
+   */
+  async init(): Promise<void> {
+    const idColumn = this.driver.dialect === 'postgres'
+      ? 'id BIGSERIAL PRIMARY KEY'
+      : 'id INTEGER PRIMARY KEY AUTOINCREMENT';
+    // 18-decimal amounts overflow BIGINT; SQLite has no wider integer, so it keeps the decimal string
+    const amountColumn = this.driver.dialect === 'postgres' ? 'amount NUMERIC(78, 0)' : 'amount TEXT';
+
+    const statements = [
+      `CREATE TABLE IF NOT EXISTS mint_jobs (
+        request_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        recipients TEXT NOT NULL,
+        payer TEXT,
+        ${amountColumn},
+        payment_asset TEXT,
+        payment_decimals INTEGER,
+        payment_tx_hash TEXT,
+        mint_tx_hash TEXT,
+        error TEXT,
+        error_reason TEXT,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL,
+        settled_at BIGINT,
+        minted_at BIGINT
+      )`,
+      `CREATE TABLE IF NOT EXISTS mint_job_events (
+        ${idColumn},
+        request_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        detail TEXT,
+        created_at BIGINT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_mint_job_events_request ON mint_job_events (request_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_mint_jobs_status ON mint_jobs (status, updated_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_mint_jobs_minted ON mint_jobs (status, minted_at, request_id)`,
+    ];
+
+    for (const statement of statements) {
+      await this.driver.execute(statement);
+    }
+
+    console.log(`✅ MintJobStore initialized (${this.driver.dialect})`);
+  }
+
+  /**
+   * Record a new job
+   */
+  async createJob(job: NewMintJob): Promise<void> {
+    const now = Date.now();
+    try {
+      await this.driver.execute(
+        `INSERT INTO mint_jobs (request_id, status, token_address, recipients, payer, amount, payment_asset, payment_decimals, error, error_reason, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          job.requestId,
+          job.status,
+          job.tokenAddress.toLowerCase(),
+          JSON.stringify(job.recipients),
+          job.payer?.toLowerCase() ?? null,
+          job.amount?.toString() ?? null,
+          job.paymentAsset?.toLowerCase() ?? null,
+          job.paymentDecimals ?? null,
+          job.error ?? null,
+          job.errorReason ?? null,
+          now,
+          now,
+        ]
+      );
+      await this.recordEvent(job.requestId, job.status, job.error ?? null, now);
+      this.emit('job-updated', { ...job, updatedAt: now } as MintJobUpdatedEvent);
+    } catch (error) {
+      console.error(`❌ MintJobStore - Failed to create job ${job.requestId}:`, errorMessage(error));
+    }
+  }
+
+  /**
+   * Move a job to a new status, merging any new fields
+   */
+  async updateJob(requestId: string, update: MintJobUpdate): Promise<void> {
+    const now = Date.now();
+    const assignments = ['status = ?', 'updated_at = ?'];
+    const params: unknown[] = [update.status, now];
+
+    const fields: Array<[string, unknown]> = [
+      ['payer', update.payer?.toLowerCase()],
+      ['amount', update.amount?.toString()],
+      ['payment_asset', update.paymentAsset?.toLowerCase()],
+      ['payment_decimals', update.paymentDecimals],
+      ['payment_tx_hash', update.paymentTxHash],
+      ['mint_tx_hash', update.mintTxHash],
+      ['error', update.error],
+      ['error_reason', update.errorReason],
+    ];
+    for (const [column, value] of fields) {
+      if (value !== undefined) {
+        assignments.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+
+    const timestampField = TIMESTAMP_FIELDS[update.status];
+    if (timestampField) {
+      assignments.push(`${timestampField} = ?`);
+      params.push(now);
+    }
+
+    try {
+      await this.driver.execute(
+        `UPDATE mint_jobs SET ${assignments.join(', ')} WHERE request_id = ?`,
+        [...params, requestId]
+      );
+      await this.recordEvent(requestId, update.status, update.error ?? update.mintTxHash ?? update.paymentTxHash ?? null, now);
+      this.emit('job-updated', { ...update, requestId, updatedAt: now } as MintJobUpdatedEvent);
+    } catch (error) {
+      console.error(`❌ MintJobStore - Failed to update job ${requestId} to ${update.status}:`, errorMessage(error));
+    }
+  }
+
+  private async recordEvent(requestId: string, status: MintJobStatus, detail: string | null, createdAt: number): Promise<void> {
+    await this.driver.execute(
+      `INSERT INTO mint_job_events (request_id, status, detail, created_at) VALUES (?, ?, ?, ?)`,
+      [requestId, status, detail, createdAt]
+    );
+  }
+
+  /**
+   * Get a job by request ID
+   */
+  async getJob(requestId: string): Promise<MintJob | null> {
+    const rows = await this.driver.query<MintJobRow>(`SELECT * FROM mint_jobs WHERE request_id = ?`, [requestId]);
+    return rows.length > 0 ? this.toMintJob(rows[0]) : null;
+  }
+
+  /**
+   * Get the status history of a job (oldest first)
+   */
+  async getJobEvents(requestId: string): Promise<MintJobEvent[]> {
+    const rows = await this.driver.query<{ status: MintJobStatus; detail: string | null; created_at: CountValue }>(
+      `SELECT status, detail, created_at FROM mint_job_events WHERE request_id = ? ORDER BY id ASC`,
+      [requestId]
+    );
+    return rows.map(row => ({
+      status: row.status,
+      detail: row.detail,
+      createdAt: Number(row.created_at),
+    }));
+  }
+
+  /**
+   * Build the WHERE clause for successful (minted) jobs
+   */
+  private successfulMintConditions(filter: SuccessfulMintFilter): { conditions: string[]; params: unknown[] } {
+    const conditions = [`status = 'minted'`];
+    const params: unknown[] = [];
+
+    if (filter.tokenAddress) {
+      conditions.push('token_address = ?');
+      params.push(filter.tokenAddress.toLowerCase());
+    }
+    if (filter.payer) {
+      conditions.push('payer = ?');
+      params.push(filter.payer.toLowerCase());
+    }
+    if (filter.from !== undefined) {
+      conditions.push('minted_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to !== undefined) {
+      conditions.push('minted_at <= ?');
+      params.push(filter.to);
+    }
+
+    return { conditions, params };
+  }
+
+  /**
+   * List successful mints, newest first, with cursor pagination
+   * @throws Error with code 'INVALID_CURSOR' if the cursor cannot be decoded
+   */
+  async listSuccessfulMints(filter: SuccessfulMintFilter, limit: number, cursor?: string): Promise<SuccessfulMintPage> {
+    const { conditions, params } = this.successfulMintConditions(filter);
+
+    if (cursor) {
+      const position = decodeCursor(cursor);
+      conditions.push('(minted_at < ? OR (minted_at = ? AND request_id < ?))');
+      params.push(position.mintedAt, position.mintedAt, position.requestId);
+    }
+
+    // Fetch one extra row to know whether there is a next page
+    const rows = await this.driver.query<MintJobRow>(
+      `SELECT * FROM mint_jobs WHERE ${conditions.join(' AND ')}
+       ORDER BY minted_at DESC, request_id DESC LIMIT ?`,
+      [...params, limit + 1]
+    );
+
+    const items = rows.slice(0, limit).map(row => this.toMintJob(row));
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      nextCursor: rows.length > limit && last ? encodeCursor(last.mintedAt!, last.requestId) : null,
+    };
+  }
+
+  /**
+   * Get a successful mint by request ID
+   */
+  async getSuccessfulMint(requestId: string): Promise<MintJob | null> {
+    const rows = await this.driver.query<MintJobRow>(
+      `SELECT * FROM mint_jobs WHERE request_id = ? AND status = 'minted'`,
+      [requestId]
+    );
+    return rows.length > 0 ? this.toMintJob(rows[0]) : null;
+  }
+
+  /**
+   * Aggregate successful mint statistics, overall and per token
+   * Revenue is reported per payment asset
+   */
+  async getMintStats(filter: SuccessfulMintFilter): Promise<MintStats> {
+    const { conditions, params } = this.successfulMintConditions(filter);
+    const where = conditions.join(' AND ');
+
+    const [totals] = await this.driver.query<{ total_mints: CountValue; unique_payers: CountValue }>(
+      `SELECT COUNT(*) AS total_mints, COUNT(DISTINCT payer) AS unique_payers
+       FROM mint_jobs WHERE ${where}`,
+      params
+    );
+    const tokenRows = await this.driver.query<{ token_address: string; total_mints: CountValue; unique_payers: CountValue }>(
+      `SELECT token_address, COUNT(*) AS total_mints, COUNT(DISTINCT payer) AS unique_payers
+       FROM mint_jobs WHERE ${where}
+       GROUP BY token_address ORDER BY total_mints DESC`,
+      params
+    );
+    const revenueRows = await this.getRevenueByTokenAndAsset(where, params);
+
+    return {
+      totalMints: Number(totals.total_mints),
+      revenue: sumRevenueByAsset(revenueRows),
+      uniquePayers: Number(totals.unique_payers),
+      tokens: tokenRows.map(row => ({
+        tokenAddress: row.token_address,
+        totalMints: Number(row.total_mints),
+        revenue: sumRevenueByAsset(revenueRows.filter(revenue => revenue.tokenAddress === row.token_address)),
+        uniquePayers: Number(row.unique_payers),
+      })),
+    };
+  }
+
+  /**
+   * Revenue per (token, payment asset)
+   * PostgreSQL sums exactly in NUMERIC; SQLite would sum in floating point, so its amounts are added here
+   */
+  private async getRevenueByTokenAndAsset(where: string, params: unknown[]): Promise<Array<AssetRevenue & { tokenAddress: string }>> {
+    if (this.driver.dialect === 'postgres') {
+      const rows = await this.driver.query<Pick<MintJobRow, 'token_address' | 'payment_asset' | 'payment_decimals'> & { revenue: string }>(
+        `SELECT token_address, payment_asset, payment_decimals, SUM(amount) AS revenue
+         FROM mint_jobs WHERE ${where} AND amount IS NOT NULL
+         GROUP BY token_address, payment_asset, payment_decimals`,
+        params
+      );
+      return rows.map(row => ({
+        tokenAddress: row.token_address,
+        paymentAsset: row.payment_asset,
+        paymentDecimals: row.payment_decimals === null ? null : Number(row.payment_decimals),
+        amount: BigInt(String(row.revenue)),
+      }));
+    }
+
+    const rows = await this.driver.query<Pick<MintJobRow, 'token_address' | 'payment_asset' | 'payment_decimals' | 'amount'>>(
+      `SELECT token_address, payment_asset, payment_decimals, amount
+       FROM mint_jobs WHERE ${where} AND amount IS NOT NULL`,
+      params
+    );
+    const totals = new Map<string, AssetRevenue & { tokenAddress: string }>();
+    for (const row of rows) {
+      const key = `${row.token_address}:${row.payment_asset}:${row.payment_decimals}`;
+      const entry = totals.get(key) ?? {
+        tokenAddress: row.token_address,
+        paymentAsset: row.payment_asset,
+        paymentDecimals: row.payment_decimals === null ? null : Number(row.payment_decimals),
+        amount: 0n,
+      };
+      entry.amount += BigInt(String(row.amount));
+      totals.set(key, entry);
+    }
+    return [...totals.values()];
+  }
+
+  /**
+   * Get the most recent successful mints
+   */
+  async getRecentMints(limit: number): Promise<MintJob[]> {
+    const rows = await this.driver.query<MintJobRow>(
+      `SELECT * FROM mint_jobs WHERE status = 'minted' ORDER BY minted_at DESC, request_id DESC LIMIT ?`,
+      [limit]
+    );
+    return rows.map(row => this.toMintJob(row));
+  }
+
+  /**
+   * Delete jobs in an unsuccessful status last updated before the cutoff, with their events
+   * Minted jobs are kept - they back the successful-mints listing and revenue stats
+   * @returns Number of jobs deleted
+   */
+  async purgeJobs(status: PurgeableMintJobStatus, olderThan: number): Promise<number> {
+    const [{ count }] = await this.driver.query<{ count: CountValue }>(
+      `SELECT COUNT(*) AS count FROM mint_jobs WHERE status = ? AND updated_at < ?`,
+      [status, olderThan]
+    );
+    await this.driver.execute(
+      `DELETE FROM mint_jobs WHERE status = ? AND updated_at < ?`,
+      [status, olderThan]
+    );
+    // Events whose job is gone (purged above, or never created)
+    await this.driver.execute(
+      `DELETE FROM mint_job_events WHERE created_at < ? AND request_id NOT IN (SELECT request_id FROM mint_jobs)`,
+      [olderThan]
+    );
+    return Number(count);
+  }
+
+  /**
+   * Purge jobs of each status older than its retention (ms; 0 keeps them) now and every intervalMs
+   */
+  startRetention(retentionMs: Record<PurgeableMintJobStatus, number>, intervalMs: number = 3600000) {
+    if (this.purgeTimer) return;
+
+    const purge = async () => {
+      for (const [status, retention] of Object.entries(retentionMs) as [PurgeableMintJobStatus, number][]) {
+        if (retention <= 0) continue;
+        try {
+          const deleted = await this.purgeJobs(status, Date.now() - retention);
+          if (deleted > 0) {
+            console.log(`🧹 MintJobStore - Purged ${deleted} ${status} jobs older than ${Math.round(retention / 3600000)} hours`);
+          }
+        } catch (error) {
+          console.error(`❌ MintJobStore - Retention purge of ${status} jobs failed:`, errorMessage(error));
+        }
+      }
+    };
+
+    void purge();
+    this.purgeTimer = setInterval(purge, intervalMs);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * Mark jobs left in flight since before the cutoff as failed (the process handling them was stopped)
+   * Their capacity holds expire on their own; a settled job keeps its paymentTxHash for follow-up
+   * mint_pending jobs are not in flight here - their transaction was sent and is reconciled instead
+   * @returns Number of jobs marked failed
+   */
+  async failStaleJobs(olderThan: number): Promise<number> {
+    const rows = await this.driver.query<{ request_id: string; status: MintJobStatus }>(
+      `SELECT request_id, status FROM mint_jobs WHERE status IN (${IN_FLIGHT_STATUSES}) AND updated_at < ?`,
+      [olderThan]
+    );
+    for (const row of rows) {
+      await this.updateJob(row.request_id, {
+        status: 'failed',
+        error: `Interrupted while ${row.status}`,
+        errorReason: 'interrupted',
+      });
+    }
+    return rows.length;
+  }
+
+  /**
+   * Fail jobs stuck in flight for longer than staleMs, now (startup) and every staleMs
+   */
+  startStaleJobSweep(staleMs: number) {
+    if (this.sweepTimer) return;
+
+    const sweep = async () => {
+      try {
+        const failed = await this.failStaleJobs(Date.now() - staleMs);
+        if (failed > 0) {
+          console.log(`🧹 MintJobStore - Marked ${failed} interrupted jobs as failed`);
+        }
+      } catch (error) {
+        console.error('❌ MintJobStore - Stale job sweep failed:', errorMessage(error));
+      }
+    };
+
+    void sweep();
+    this.sweepTimer = setInterval(sweep, staleMs);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Resolve mint_pending jobs from the on-chain outcome of their mint transaction
+   * A transaction the node doesn't know is only given up on once the job is older than droppedBefore
+   * (it may not have propagated yet). Capacity holds of these mints expire on their own.
+   * @param checkMint Outcome of a mint transaction (MintExecutor.checkMint)
+   * @returns Number of jobs resolved
+   */
+  async reconcilePendingMints(checkMint: (transaction: Hex) => Promise<MintCheckResult>, droppedBefore: number): Promise<number> {
+    const rows = await this.driver.query<MintJobRow>(
+      `SELECT * FROM mint_jobs WHERE status = 'mint_pending' ORDER BY updated_at LIMIT 100`
+    );
+
+    let resolved = 0;
+    for (const job of rows.map(row => this.toMintJob(row))) {
+      if (!job.mintTxHash) continue;
+      try {
+        const outcome = await checkMint(job.mintTxHash as Hex);
+        if (outcome.status === 'confirmed') {
+          await this.updateJob(job.requestId, { status: 'minted', mintTxHash: job.mintTxHash });
+        } else if (outcome.status === 'reverted') {
+          await this.updateJob(job.requestId, { status: 'failed', error: 'Mint transaction reverted', errorReason: 'mint_reverted' });
+        } else if (outcome.status === 'unknown' && job.updatedAt < droppedBefore) {
+          await this.updateJob(job.requestId, { status: 'failed', error: 'Mint transaction was dropped', errorReason: 'mint_dropped' });
+        } else {
+          continue;
+        }
+        resolved++;
+      } catch (error) {
+        console.error(`❌ MintJobStore - Failed to check mint ${job.mintTxHash} of ${job.requestId}:`, errorMessage(error));
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Reconcile mint_pending jobs now (startup) and every intervalMs
+   * @param droppedAfterMs Age at which a mint the node doesn't know is marked failed
+   */
+  startMintReconciliation(checkMint: (transaction: Hex) => Promise<MintCheckResult>, intervalMs: number, droppedAfterMs: number) {
+    if (this.reconcileTimer) return;
+
+    const reconcile = async () => {
+      try {
+        const resolved = await this.reconcilePendingMints(checkMint, Date.now() - droppedAfterMs);
+        if (resolved > 0) {
+          console.log(`🔁 MintJobStore - Resolved ${resolved} pending mints`);
+        }
+      } catch (error) {
+        console.error('❌ MintJobStore - Mint reconciliation failed:', errorMessage(error));
+      }
+    };
+
+    void reconcile();
+    this.reconcileTimer = setInterval(reconcile, intervalMs);
+    this.reconcileTimer.unref();
+  }
+
+  private toMintJob(row: MintJobRow): MintJob {
+    return {
+      requestId: row.request_id,
+      status: row.status,
+      tokenAddress: row.token_address,
+      recipients: JSON.parse(row.recipients),
+      payer: row.payer,
+      amount: row.amount === null ? null : String(row.amount),
+      paymentAsset: row.payment_asset ?? null,
+      paymentDecimals: row.payment_decimals == null ? null : Number(row.payment_decimals),
+      paymentTxHash: row.payment_tx_hash,
+      mintTxHash: row.mint_tx_hash,
+      error: row.error,
+      errorReason: row.error_reason,
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+      settledAt: row.settled_at === null ? null : Number(row.settled_at),
+      mintedAt: row.minted_at === null ? null : Number(row.minted_at),
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+    await this.driver.close();
+  }
+}
+
+/**
+ * Add up per-token revenue rows into one entry per payment asset
+ */
+function sumRevenueByAsset(rows: AssetRevenue[]): AssetRevenue[] {
+  const totals = new Map<string, AssetRevenue>();
+  for (const row of rows) {
+    const key = `${row.paymentAsset}:${row.paymentDecimals}`;
+    const entry = totals.get(key) ?? { paymentAsset: row.paymentAsset, paymentDecimals: row.paymentDecimals, amount: 0n };
+    entry.amount += row.amount;
+    totals.set(key, entry);
+  }
+  return [...totals.values()].sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0));
+}
+
+/**
+ * Encode a pagination cursor (opaque to clients)
+ */
+function encodeCursor(mintedAt: number, requestId: string): string {
+  return Buffer.from(`${mintedAt}:${requestId}`).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor
+ */
+function decodeCursor(cursor: string): { mintedAt: number; requestId: string } {
+  const decoded = Buffer.from(cursor, 'base64url').toString();
+  const separator = decoded.indexOf(':');
+  const mintedAt = Number(decoded.slice(0, separator));
+
+  if (separator <= 0 || !Number.isFinite(mintedAt)) {
+    const error = new Error('Invalid cursor') as CodedError;
+    error.code = 'INVALID_CURSOR';
+    throw error;
+  }
+
+  return { mintedAt, requestId: decoded.slice(separator + 1) };
+}
+
+// Singleton instance
+let mintJobStoreInstance: MintJobStore | null = null;
+
+/**
+ * Initialize the mint job store from environment configuration
+ * DATABASE_URL (postgres://...) selects PostgreSQL, otherwise SQLite at MINT_JOB_SQLITE_PATH
+ * Failed jobs are kept for MINT_JOB_RETENTION_DAYS, unpaid 402 jobs for MINT_JOB_UNPAID_RETENTION_HOURS
+ * (0 keeps them forever)
+ * Jobs in flight for longer than MINT_JOB_STALE_MS (e.g. across a restart) are marked failed
+ */
+export async function initMintJobStore(): Promise<MintJobStore> {
+  if (mintJobStoreInstance) {
+    return mintJobStoreInstance;
+  }
+
+  const databaseUrl = process.env.DATABASE_URL;
+  const driver: SqlDriver = databaseUrl && /^postgres(ql)?:\/\//.test(databaseUrl)
+    ? new PostgresDriver(databaseUrl)
+    : new SqliteDriver(process.env.MINT_JOB_SQLITE_PATH || 'data/mint-jobs.db');
+
+  const store = new MintJobStore(driver);
+  await store.init();
+
+  const retentionDays = parseInt(process.env.MINT_JOB_RETENTION_DAYS || '30', 10);
+  const unpaidRetentionHours = parseInt(process.env.MINT_JOB_UNPAID_RETENTION_HOURS || '24', 10);
+  if (retentionDays > 0 || unpaidRetentionHours > 0) {
+    store.startRetention({
+      payment_required: unpaidRetentionHours * 3600000,
+      failed: retentionDays * 86400000,
+    });
+  }
+  store.startStaleJobSweep(parseInt(process.env.MINT_JOB_STALE_MS || '900000', 10));
+
+  mintJobStoreInstance = store;
+  return store;
+}
+
+/**
+ * Get MintJobStore singleton
+ */
+export function getMintJobStore(): MintJobStore {
+  if (!mintJobStoreInstance) {
+    throw new Error('MintJobStore not initialized. Call initMintJobStore() first.');
+  }
+  return mintJobStoreInstance;
+}
+
+/**
+ * Close MintJobStore
+ */
+export async function closeMintJobStore(): Promise<void> {
+  if (mintJobStoreInstance) {
+    await mintJobStoreInstance.close();
+    mintJobStoreInstance = null;
+    console.log('✅ MintJobStore closed');
+  }
+}
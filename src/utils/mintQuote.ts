@@ -0,0 +1,93 @@
+/**
+ * Mint Quote
+ * HMAC-signed, short-lived price quotes that a later paid mint request can reference
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { CodedError } from './errors.js';
+
+export interface MintQuotePayload {
+  quoteId: string;
+  tokenAddress: string;
+  recipients: number;                 // Recipient count the quote was priced for
+  amounts: Record<string, string>;    // Lowercased asset address -> quoted total (base units)
+  issuedAt: number;                   // Unix seconds
+  expiresAt: number;                  // Unix seconds
+}
+
+/**
+ * MintQuoteSigner
+ * Token format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256)
+ */
+export class MintQuoteSigner {
+  private secret: Buffer;
+  readonly ttlSeconds: number;
+
+  constructor(secret: string | undefined, ttlSeconds: number) {
+    if (secret) {
+      this.secret = Buffer.from(secret, 'utf8');
+    } else {
+      // Quotes then only verify on this instance and not across restarts
+      console.warn('⚠️ MINT_QUOTE_SECRET not set, using a random per-process secret');
+      this.secret = randomBytes(32);
+    }
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Issue a signed quote
+   */
+  sign(quote: Omit<MintQuotePayload, 'quoteId' | 'issuedAt' | 'expiresAt'>): { token: string; payload: MintQuotePayload } {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const payload: MintQuotePayload = {
+      quoteId: randomUUID(),
+      ...quote,
+      tokenAddress: quote.tokenAddress.toLowerCase(),
+      issuedAt,
+      expiresAt: issuedAt + this.ttlSeconds,
+    };
+
+    const body = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+    return { token: `${body}.${this.signature(body)}`, payload };
+  }
+
+  /**
+   * Verify a quote token
+   * @throws Error with code INVALID_QUOTE or QUOTE_EXPIRED
+   */
+  verify(token: string): MintQuotePayload {
+    const [body, signature] = token.split('.');
+    if (!body || !signature) {
+      throw quoteError('Malformed quote', 'INVALID_QUOTE');
+    }
+
+    const expected = Buffer.from(this.signature(body), 'base64url');
+    const actual = Buffer.from(signature, 'base64url');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw quoteError('Invalid quote signature', 'INVALID_QUOTE');
+    }
+
+    let payload: MintQuotePayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw quoteError('Malformed quote', 'INVALID_QUOTE');
+    }
+
+    if (payload.expiresAt < Math.floor(Date.now() / 1000)) {
+      throw quoteError('Quote has expired', 'QUOTE_EXPIRED');
+    }
+
+    return payload;
+  }
+
+  private signature(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+}
+
+function quoteError(message: string, code: string): Error {
+  const error = new Error(message) as CodedError;
+  error.code = code;
+  return error;
+}
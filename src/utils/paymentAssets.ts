@@ -0,0 +1,181 @@
+/**
+ * Payment Asset Registry
+ * EIP-3009 assets accepted as mint payment, in addition to each token's own PAYMENT_TOKEN
+ */
+
+import { Address, getAddress, isAddress, isAddressEqual, parseUnits } from 'viem';
+import type { PaymentAssetInfo, TokenEconomics } from './tokenEconomics.js';
+import { errorMessage } from './errors.js';
+
+/**
+ * An accepted asset as configured (its decimals are read from chain)
+ */
+export interface PaymentAssetConfig {
+  address: Address;
+  name: string;            // EIP-712 domain name
+  version: string;         // EIP-712 domain version
+  price?: string;          // Fixed price per recipient in whole asset units, defaults to the token's paymentSeed
+}
+
+export interface PaymentAsset {
+  address: Address;
+  name: string;            // EIP-712 domain name
+  version: string;         // EIP-712 domain version
+  decimals: number;
+}
+
+export interface PaymentOption {
+  asset: PaymentAsset;
+  pricePerMint: bigint;    // Price per recipient in this asset (base units)
+  payTo: Address;          // Token contract for its own PAYMENT_TOKEN, treasury for every other asset
+}
+
+export interface PaymentAssetRegistryOptions {
+  getAssetInfo: (address: Address) => Promise<PaymentAssetInfo>;  // On-chain name and decimals (TokenEconomicsResolver)
+  treasury?: Address;      // Receives alternative assets; without it only the token's PAYMENT_TOKEN is offered
+}
+
+// One PAYMENT_ASSETS entry as written by the operator (validated below)
+interface PaymentAssetEntry {
+  address?: unknown;
+  name?: unknown;
+  version?: unknown;
+  price?: unknown;
+}
+
+/**
+ * Parse additional payment assets from a JSON array, e.g.
+ * [{"address":"0x...","name":"USD Coin","version":"2","price":"10"}]
+ * `price` is in whole asset units; `version` defaults to "1"
+ */
+export function parsePaymentAssets(spec?: string): PaymentAssetConfig[] {
+  if (!spec || !spec.trim()) {
+    return [];
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(spec);
+  } catch (error) {
+    throw new Error(`Invalid PAYMENT_ASSETS (expected JSON array): ${errorMessage(error)}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error('Invalid PAYMENT_ASSETS (expected JSON array)');
+  }
+
+  return (entries as (PaymentAssetEntry | null)[]).map((entry) => {
+    if (!entry || typeof entry.address !== 'string' || !isAddress(entry.address)) {
+      throw new Error(`Invalid payment asset address: ${JSON.stringify(entry?.address)}`);
+    }
+    if (typeof entry.name !== 'string' || !entry.name) {
+      throw new Error(`Payment asset ${entry.address} is missing its EIP-712 name`);
+    }
+    if (entry.price !== undefined && !/^\d+(\.\d+)?$/.test(String(entry.price))) {
+      throw new Error(`Payment asset ${entry.address} has invalid price: ${JSON.stringify(entry.price)}`);
+    }
+
+    return {
+      address: getAddress(entry.address),
+      name: entry.name,
+      version: entry.version !== undefined ? String(entry.version) : '1',
+      price: entry.price !== undefined ? String(entry.price) : undefined,
+    };
+  });
+}
+
+/**
+ * Convert an amount between assets of different decimals (stablecoins are treated as 1:1)
+ */
+function scaleAmount(amount: bigint, fromDecimals: number, toDecimals: number): bigint {
+  if (toDecimals === fromDecimals) return amount;
+  if (toDecimals > fromDecimals) return amount * 10n ** BigInt(toDecimals - fromDecimals);
+  // Round up so the payer never underpays after scaling
+  const divisor = 10n ** BigInt(fromDecimals - toDecimals);
+  return (amount + divisor - 1n) / divisor;
+}
+
+/**
+ * PaymentAssetRegistry
+ * Builds the list of payment options offered for a token and matches a signed payment to one of them
+ */
+export class PaymentAssetRegistry {
+  private assets = new Map<string, PaymentAssetConfig>();
+  private readonly getAssetInfo: PaymentAssetRegistryOptions['getAssetInfo'];
+  private readonly treasury: Address | undefined;
+
+  constructor(assets: PaymentAssetConfig[], options: PaymentAssetRegistryOptions) {
+    this.getAssetInfo = options.getAssetInfo;
+    this.treasury = options.treasury;
+    for (const asset of assets) {
+      this.register(asset);
+    }
+  }
+
+  register(asset: PaymentAssetConfig) {
+    this.assets.set(asset.address.toLowerCase(), asset);
+  }
+
+  get(address: string): PaymentAssetConfig | undefined {
+    return this.assets.get(address.toLowerCase());
+  }
+
+  list(): PaymentAssetConfig[] {
+    return [...this.assets.values()];
+  }
+
+  /**
+   * Payment options for a token - its own PAYMENT_TOKEN first, then every registered asset
+   * The token contract only handles its own PAYMENT_TOKEN, so other assets are paid to the treasury
+   * (and not offered without one). An asset whose decimals can't be read is left out until a later request.
+   */
+  async getPaymentOptions(economics: TokenEconomics): Promise<PaymentOption[]> {
+    const registered = this.get(economics.paymentToken);
+    const options: PaymentOption[] = [{
+      asset: {
+        address: economics.paymentToken,
+        name: registered?.name ?? economics.paymentTokenName,
+        version: registered?.version ?? '1',
+        decimals: economics.paymentTokenDecimals,
+      },
+      pricePerMint: economics.pricePerMint,
+      payTo: economics.tokenAddress,
+    }];
+
+    const treasury = this.treasury;
+    if (!treasury) {
+      return options;
+    }
+
+    const others = this.list().filter(asset => !isAddressEqual(asset.address, economics.paymentToken));
+    const infos = await Promise.allSettled(others.map(asset => this.getAssetInfo(asset.address)));
+
+    others.forEach((asset, index) => {
+      const info = infos[index];
+      if (info.status === 'rejected') {
+        console.warn(`⚠️ PaymentAssetRegistry - Skipping ${asset.name} (${asset.address}), decimals unavailable:`, errorMessage(info.reason));
+        return;
+      }
+
+      const { decimals } = info.value;
+      options.push({
+        asset: { address: asset.address, name: asset.name, version: asset.version, decimals },
+        pricePerMint: asset.price !== undefined
+          ? parseUnits(asset.price, decimals)
+          : scaleAmount(economics.pricePerMint, economics.paymentTokenDecimals, decimals),
+        payTo: treasury,
+      });
+    });
+
+    return options;
+  }
+
+  /**
+   * Find the option whose asset the payment authorization was signed for
+   */
+  findPaymentOption<T extends PaymentOption>(options: T[], assetAddress: string | undefined): T | undefined {
+    if (!assetAddress || !isAddress(assetAddress)) {
+      return undefined;
+    }
+    return options.find(option => isAddressEqual(option.asset.address, assetAddress));
+  }
+}
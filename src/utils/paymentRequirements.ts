@@ -0,0 +1,66 @@
+/**
+ * x402 Payment Requirements
+ * Single builder for the requirements advertised in a 402 response and sent to the facilitator on verify
+ */
+
+import { Address } from 'viem';
+import type { PaymentRequirements } from 'x402/types';
+import type { PaymentAsset } from './paymentAssets.js';
+import type { MintPrice } from './pricing.js';
+
+export const X402_VERSION = 1;
+
+export interface PaymentRequirementsParams {
+  network: string;
+  resource: string;          // Absolute URL of the paid endpoint
+  payTo: Address;
+  asset: PaymentAsset;
+  mintPrice: MintPrice;
+  description?: string;
+  maxTimeoutSeconds?: number;
+}
+
+/**
+ * Spec-conformant 402 response body
+ */
+export interface PaymentRequiredResponse {
+  x402Version: number;
+  error: string;
+  accepts: PaymentRequirements[];
+}
+
+/**
+ * Build the `exact` scheme requirements for one payment asset
+ * `extra` carries the EIP-712 domain (name, version) plus the price breakdown
+ */
+export function buildPaymentRequirements(params: PaymentRequirementsParams): PaymentRequirements {
+  const { asset, mintPrice } = params;
+
+  return {
+    scheme: 'exact',
+    network: params.network,
+    maxAmountRequired: mintPrice.total.toString(),
+    resource: params.resource,
+    description: params.description || 'Token mint payment',
+    mimeType: 'application/json',
+    payTo: params.payTo,
+    maxTimeoutSeconds: params.maxTimeoutSeconds || 600,
+    asset: asset.address,
+    extra: {
+      name: asset.name,
+      version: asset.version,
+      decimals: asset.decimals,
+      recipients: mintPrice.recipientCount,
+      unitPrice: mintPrice.unitPrice.toString(),
+      discountBps: mintPrice.discountBps,
+    },
+  };
+}
+
+export function buildPaymentRequiredResponse(error: string, accepts: PaymentRequirements[]): PaymentRequiredResponse {
+  return {
+    x402Version: X402_VERSION,
+    error,
+    accepts,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Mint Pricing
+ * Prices a mint request per recipient, with optional volume discount tiers
+ */
+
+export interface VolumeTier {
+  minRecipients: number;  // Tier applies from this many recipients
+  discountBps: number;    // Discount in basis points (100 = 1%)
+}
+
+export interface MintPrice {
+  recipientCount: number;
+  unitPrice: bigint;      // Price per recipient before discount (payment token base units)
+  discountBps: number;    // Applied volume discount
+  total: bigint;          // Amount the payer must authorize
+}
+
+const BPS_DENOMINATOR = 10000n;
+
+/**
+ * Parse volume tiers from "minRecipients:discountBps" pairs, e.g. "10:500,50:1000"
+ * @returns Tiers sorted by minRecipients descending
+ */
+export function parseVolumeTiers(spec?: string): VolumeTier[] {
+  if (!spec || !spec.trim()) {
+    return [];
+  }
+
+  const tiers = spec.split(',').map((entry) => {
+    const [minRecipients, discountBps] = entry.split(':').map(part => parseInt(part.trim(), 10));
+    if (!Number.isInteger(minRecipients) || minRecipients < 1 ||
+        !Number.isInteger(discountBps) || discountBps < 0 || discountBps >= 10000) {
+      throw new Error(`Invalid volume tier "${entry}" (expected minRecipients:discountBps)`);
+    }
+    return { minRecipients, discountBps };
+  });
+
+  return tiers.sort((a, b) => b.minRecipients - a.minRecipients);
+}
+
+/**
+ * Calculate the price of a mint request
+ * @param recipientCount Number of recipients in the request
+ * @param unitPrice Price per recipient (payment token base units)
+ * @param tiers Volume tiers (any order)
+ */
+export function calculateMintPrice(recipientCount: number, unitPrice: bigint, tiers: VolumeTier[] = []): MintPrice {
+  const tier = [...tiers]
+    .sort((a, b) => b.minRecipients - a.minRecipients)
+    .find(t => recipientCount >= t.minRecipients);
+  const discountBps = tier?.discountBps ?? 0;
+
+  const gross = unitPrice * BigInt(recipientCount);
+  const total = (gross * (BPS_DENOMINATOR - BigInt(discountBps))) / BPS_DENOMINATOR;
+
+  return {
+    recipientCount,
+    unitPrice,
+    discountBps,
+    total,
+  };
+}
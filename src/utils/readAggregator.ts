@@ -0,0 +1,161 @@
+/**
+ * Read Aggregator
+ * Merges contract reads issued within a short tick window into Multicall3 batches
+ * Identical reads in the same window share one call, across requests and tokens
+ */
+
+import { type Abi, type Address, type Chain, type PublicClient, type Transport, createPublicClient, encodeFunctionData } from 'viem';
+import { getChainTransport } from './rpcPool.js';
+
+export interface ContractRead {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+export interface ReadAggregatorOptions {
+  chain: Chain;
+  wait?: number;          // Tick window (milliseconds)
+  maxBatchSize?: number;  // Calls per multicall (a full batch is sent without waiting)
+}
+
+interface PendingRead {
+  call: ContractRead;
+  waiters: { resolve: (value: unknown) => void; reject: (error: unknown) => void }[];
+}
+
+/**
+ * Read Aggregator
+ * Falls back to individual eth_calls on chains without Multicall3
+ */
+export class ReadAggregator {
+  private publicClient: PublicClient<Transport, Chain>;
+  private pending = new Map<string, PendingRead>();
+  private timer: NodeJS.Timeout | null = null;
+
+  private readonly wait: number;
+  private readonly maxBatchSize: number;
+  private readonly hasMulticall: boolean;
+
+  // Stats (for monitoring)
+  private readsRequested = 0;
+  private callsSent = 0;
+  private batchesSent = 0;
+
+  constructor(options: ReadAggregatorOptions) {
+    this.wait = options.wait ?? 10;
+    this.maxBatchSize = options.maxBatchSize || 200;
+    this.hasMulticall = Boolean(options.chain.contracts?.multicall3);
+
+    this.publicClient = createPublicClient({
+      chain: options.chain,
+      transport: getChainTransport(options.chain),
+    });
+  }
+
+  /**
+   * Queue a contract read (resolved when its batch returns)
+   */
+  read<T = unknown>(call: ContractRead): Promise<T> {
+    this.readsRequested++;
+    const key = `${call.address.toLowerCase()}:${encodeFunctionData({
+      abi: call.abi,
+      functionName: call.functionName,
+      args: call.args,
+    })}`;
+
+    return new Promise<T>((resolve, reject) => {
+      const existing = this.pending.get(key);
+      if (existing) {
+        existing.waiters.push({ resolve: resolve as (value: unknown) => void, reject });
+        return;
+      }
+
+      this.pending.set(key, { call, waiters: [{ resolve: resolve as (value: unknown) => void, reject }] });
+
+      if (this.pending.size >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.wait);
+      }
+    });
+  }
+
+  getStats() {
+    return {
+      readsRequested: this.readsRequested,
+      callsSent: this.callsSent,
+      batchesSent: this.batchesSent,
+    };
+  }
+
+  /**
+   * Send everything queued so far as one multicall
+   */
+  private flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.size === 0) return;
+
+    const batch = [...this.pending.values()];
+    this.pending.clear();
+    this.batchesSent++;
+    this.callsSent += batch.length;
+
+    this.execute(batch).catch(error => {
+      for (const entry of batch) {
+        entry.waiters.forEach(waiter => waiter.reject(error));
+      }
+    });
+  }
+
+  private async execute(batch: PendingRead[]) {
+    if (!this.hasMulticall) {
+      await Promise.all(batch.map(async entry => {
+        try {
+          const value = await this.publicClient.readContract(entry.call);
+          entry.waiters.forEach(waiter => waiter.resolve(value));
+        } catch (error) {
+          entry.waiters.forEach(waiter => waiter.reject(error));
+        }
+      }));
+      return;
+    }
+
+    const results = await this.publicClient.multicall({
+      contracts: batch.map(entry => entry.call),
+      allowFailure: true,
+    });
+
+    results.forEach((result: { status: string; result?: unknown; error?: Error }, index: number) => {
+      const { waiters } = batch[index];
+      if (result.status === 'success') {
+        waiters.forEach(waiter => waiter.resolve(result.result));
+      } else {
+        waiters.forEach(waiter => waiter.reject(result.error));
+      }
+    });
+  }
+}
+
+// One aggregator per chain
+const readAggregatorInstances = new Map<number, ReadAggregator>();
+
+/**
+ * Get the ReadAggregator for a chain
+ */
+export function getReadAggregator(chain: Chain): ReadAggregator {
+  let instance = readAggregatorInstances.get(chain.id);
+  if (!instance) {
+    instance = new ReadAggregator({
+      chain,
+      wait: parseInt(process.env.READ_BATCH_WAIT_MS || '10', 10),
+      maxBatchSize: parseInt(process.env.READ_BATCH_MAX_SIZE || '200', 10),
+    });
+    readAggregatorInstances.set(chain.id, instance);
+  }
+  return instance;
+}
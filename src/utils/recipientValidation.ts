@@ -0,0 +1,93 @@
+/**
+ * Recipient Validation
+ * Validates and normalizes the recipient list of a mint request
+ */
+
+import { Address, getAddress, isAddress, zeroAddress } from 'viem';
+
+export type RecipientErrorReason =
+  | 'not_a_string'
+  | 'invalid_address'
+  | 'zero_address'
+  | 'token_contract'
+  | 'payment_token';
+
+export interface RecipientError {
+  index: number;          // Position in the submitted list
+  value: unknown;         // Submitted entry
+  reason: RecipientErrorReason;
+  message: string;
+}
+
+export interface RecipientValidationOptions {
+  maxRecipients: number;
+  tokenAddress: string;
+  paymentTokens: string[];  // Every payment asset accepted for the token
+}
+
+export type RecipientValidationResult =
+  | { valid: true; recipients: Address[]; duplicates: number[] }
+  | { valid: false; error: string; errors: RecipientError[] };
+
+/**
+ * Validate a recipient list
+ * - Rejects non-addresses, the zero address, the token contract and payment tokens (per-index errors)
+ * - Checksums entries and drops duplicates (indexes of dropped entries are reported)
+ */
+export function validateRecipients(input: unknown, options: RecipientValidationOptions): RecipientValidationResult {
+  if (!Array.isArray(input)) {
+    return { valid: false, error: 'Missing required field: recipients', errors: [] };
+  }
+
+  const tokenAddress = options.tokenAddress.toLowerCase();
+  const paymentTokens = new Set(options.paymentTokens.map(address => address.toLowerCase()));
+
+  const errors: RecipientError[] = [];
+  const recipients: Address[] = [];
+  const duplicates: number[] = [];
+  const seen = new Set<string>();
+
+  input.forEach((value, index) => {
+    const fail = (reason: RecipientErrorReason, message: string) => {
+      errors.push({ index, value, reason, message });
+    };
+
+    if (typeof value !== 'string') {
+      return fail('not_a_string', 'Recipient must be an address string');
+    }
+
+    const trimmed = value.trim();
+    // Lowercase is accepted, mixed case must be a valid checksum
+    if (!isAddress(trimmed)) {
+      return fail('invalid_address', 'Not a valid EVM address (or checksum mismatch)');
+    }
+
+    const normalized = trimmed.toLowerCase();
+    if (normalized === zeroAddress) {
+      return fail('zero_address', 'Cannot mint to the zero address');
+    }
+    if (normalized === tokenAddress) {
+      return fail('token_contract', 'Cannot mint to the token contract itself');
+    }
+    if (paymentTokens.has(normalized)) {
+      return fail('payment_token', 'Cannot mint to a payment token contract');
+    }
+
+    if (seen.has(normalized)) {
+      duplicates.push(index);
+      return;
+    }
+    seen.add(normalized);
+    recipients.push(getAddress(trimmed));
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, error: 'Invalid recipients', errors };
+  }
+
+  if (recipients.length === 0 || recipients.length > options.maxRecipients) {
+    return { valid: false, error: `Recipients must be between 1 and ${options.maxRecipients} addresses`, errors: [] };
+  }
+
+  return { valid: true, recipients, duplicates };
+}
@@ -504,6 +504,9 @@ export async function shutdownPool(): Promise<void> {
 
 export default RedisConnectionPool;
 
+// Redis commands looked up by name on a pooled connection
+type RedisMethods = Record<string, (...args: unknown[]) => unknown>;
+
 /**
  * Compatible interface for legacy RedisConnectionManager
  * Provides unified global connection pool access
@@ -516,7 +519,7 @@ class RedisConnectionManager {
    * Get or create connection (compatible legacy interface)
    * Returns a simulated Redis client that actually uses connection pool
    */
-  static async getConnection(redisUrl?: string): Promise<any | null> {
+  static async getConnection(redisUrl?: string): Promise<Redis | null> {
     if (!redisUrl) {
       return null;
     }
@@ -549,14 +552,14 @@ class RedisConnectionManager {
 
     // Return a proxy object that forwards all Redis commands to connection pool
     const pool = this.globalPool;
-    return new Proxy({
+    const proxy = new Proxy({
       // Simulate status property
       get status() {
         const status = pool.getStatus();
         return status.healthy > 0 ? 'ready' : 'disconnected';
       }
     }, {
-      get: (target: any, prop: string) => {
+      get: (target: { readonly status: string }, prop: string) => {
         // If it's status property, return target's status
         if (prop === 'status') {
           return target.status;
@@ -576,12 +579,12 @@ class RedisConnectionManager {
         // For multi() and pipeline(), we need special handling
         // Because they need to execute entire transaction on same connection
         if (prop === 'multi' || prop === 'pipeline') {
-          return (...args: any[]) => {
+          return (...args: unknown[]) => {
             // Record all queued commands
-            const commands: Array<{ method: string; args: any[] }> = [];
+            const commands: Array<{ method: string; args: unknown[] }> = [];
 
             // Create a recursive Proxy for chained calls
-            const createChainProxy = (): any => {
+            const createChainProxy = (): object => {
               return new Proxy({}, {
                 get: (_, chainProp: string | symbol) => {
                   const propStr = String(chainProp);
@@ -592,7 +595,7 @@ class RedisConnectionManager {
                       console.log(`🎯 Executing transaction with ${commands.length} commands`);
                       return await pool.execute(async (redis) => {
                         // Create transaction on real connection
-                        const multi = (redis as any)[prop](...args);
+                        const multi = (redis as unknown as RedisMethods)[prop](...args) as unknown as RedisMethods;
 
                         // Replay all commands
                         for (const cmd of commands) {
@@ -602,7 +605,7 @@ class RedisConnectionManager {
 
                         // Execute transaction
                         console.log(`   ▶️ Executing transaction...`);
-                        const result = await multi.exec();
+                        const result = await multi.exec() as unknown[] | null;
                         console.log(`   ✅ Transaction executed, results: ${result?.length || 0}`);
                         return result;
                       });
@@ -610,7 +613,7 @@ class RedisConnectionManager {
                   }
 
                   // All other methods are recorded to command list and return self to support chaining
-                  return (...methodArgs: any[]) => {
+                  return (...methodArgs: unknown[]) => {
                     console.log(`📝 Recording transaction command: ${propStr}(${methodArgs.join(', ')})`);
                     commands.push({ method: propStr, args: methodArgs });
                     return createChainProxy(); // Return new Proxy to continue chaining
@@ -624,9 +627,9 @@ class RedisConnectionManager {
         }
 
         // All other methods are executed through pool
-        return async (...args: any[]) => {
+        return async (...args: unknown[]) => {
           return await pool.execute(async (redis) => {
-            const method = (redis as any)[prop];
+            const method = (redis as unknown as RedisMethods)[prop];
             if (typeof method === 'function') {
               return await method.apply(redis, args);
             }
@@ -635,6 +638,9 @@ class RedisConnectionManager {
         };
       }
     });
+
+    // The proxy forwards every Redis command, so callers use it as a client
+    return proxy as unknown as Redis;
   }
 
   /**
@@ -662,7 +668,7 @@ class RedisConnectionManager {
   /**
    * Force reconnect
    */
-  static async reconnect(): Promise<any | null> {
+  static async reconnect(): Promise<Redis | null> {
     await this.disconnect();
     return this.redisUrl ? this.getConnection(this.redisUrl) : null;
   }
@@ -0,0 +1,193 @@
+/**
+ * RPC Health Monitor
+ * Probes every endpoint of an RPC pool in the background (block height, latency, errors)
+ * Probe results go through the pool, so lagging or failing endpoints drop out of selection
+ */
+
+import type { RpcEndpointStatus, RpcPool } from './rpcPool.js';
+import { errorMessage } from './errors.js';
+
+export interface RpcHealthMonitorOptions {
+  interval?: number;      // Probe interval (milliseconds)
+  windowSize?: number;    // Probes kept per endpoint for the error rate
+}
+
+export interface RpcEndpointHealth extends RpcEndpointStatus {
+  blocksBehind: number | null;  // Blocks behind the median height (negative when ahead)
+  lagging: boolean;
+  probe: {
+    lastProbeAt: string | null;
+    latencyMs: number | null;
+    errorRate: number | null;   // Failed share of the last windowSize probes (0-1)
+    samples: number;
+    lastError: string | null;
+  };
+}
+
+export interface RpcHealthReport {
+  checkedAt: string | null;
+  medianBlockNumber: string | null;
+  maxBlockLag: number;
+  healthyCount: number;
+  laggingCount: number;
+  totalCount: number;
+  endpoints: RpcEndpointHealth[];
+}
+
+interface ProbeHistory {
+  outcomes: boolean[];          // true = success
+  lastProbeAt: number | null;
+  latencyMs: number | null;
+  lastError: string | null;
+}
+
+/**
+ * RPC Health Monitor
+ */
+export class RpcHealthMonitor {
+  private history = new Map<string, ProbeHistory>();
+  private timer: NodeJS.Timeout | null = null;
+  private probeInProgress = false;
+  private lastCheckedAt: number | null = null;
+
+  private readonly interval: number;
+  private readonly windowSize: number;
+
+  constructor(private pool: RpcPool, options: RpcHealthMonitorOptions = {}) {
+    this.interval = options.interval || 15000;
+    this.windowSize = options.windowSize || 20;
+
+    for (const url of pool.getUrls()) {
+      this.history.set(url, { outcomes: [], lastProbeAt: null, latencyMs: null, lastError: null });
+    }
+  }
+
+  /**
+   * Start probing (first round runs immediately)
+   */
+  start() {
+    if (this.timer) return;
+
+    const tick = async () => {
+      await this.probeAll();
+      if (this.timer) {
+        this.timer = setTimeout(tick, this.interval);
+      }
+    };
+    this.timer = setTimeout(tick, 0);
+
+    console.log(`✅ RpcHealthMonitor started (${this.history.size} endpoints, every ${this.interval}ms)`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Probe every endpoint in parallel
+   */
+  async probeAll(): Promise<void> {
+    if (this.probeInProgress) return;
+    this.probeInProgress = true;
+
+    try {
+      const results = await Promise.all(this.pool.getUrls().map(url => this.pool.probe(url)));
+
+      for (const result of results) {
+        const history = this.history.get(result.url)!;
+        history.outcomes.push(result.ok);
+        if (history.outcomes.length > this.windowSize) {
+          history.outcomes.shift();
+        }
+        history.lastProbeAt = Date.now();
+        history.latencyMs = result.latencyMs;
+        history.lastError = result.ok ? null : result.error;
+      }
+
+      this.lastCheckedAt = Date.now();
+
+      const lagging = this.getReport().endpoints.filter(endpoint => endpoint.lagging);
+      if (lagging.length > 0) {
+        console.warn(`⚠️ RpcHealthMonitor - ${lagging.length} endpoint(s) lagging: ${lagging.map(endpoint => `${endpoint.url} (-${endpoint.blocksBehind ?? '?'})`).join(', ')}`);
+      }
+    } catch (error) {
+      console.error('❌ RpcHealthMonitor - Probe round failed:', errorMessage(error));
+    } finally {
+      this.probeInProgress = false;
+    }
+  }
+
+  getReport(): RpcHealthReport {
+    const median = this.pool.getMedianBlockNumber();
+    const maxBlockLag = this.pool.getMaxBlockLag();
+    const urls = this.pool.getUrls();
+    const statuses = this.pool.getStatus();
+
+    const endpoints = statuses.map((status, index): RpcEndpointHealth => {
+      const history = this.history.get(urls[index]);
+      const outcomes = history?.outcomes ?? [];
+      const failures = outcomes.filter(ok => !ok).length;
+      const blocksBehind = median !== null && status.blockNumber !== null
+        ? Number(median - BigInt(status.blockNumber))
+        : null;
+
+      return {
+        ...status,
+        blocksBehind,
+        lagging: (blocksBehind !== null && blocksBehind > maxBlockLag) || status.ejectReason?.startsWith('stale') === true,
+        probe: {
+          lastProbeAt: history?.lastProbeAt ? new Date(history.lastProbeAt).toISOString() : null,
+          latencyMs: history?.latencyMs ?? null,
+          errorRate: outcomes.length > 0 ? Math.round((failures / outcomes.length) * 1000) / 1000 : null,
+          samples: outcomes.length,
+          lastError: history?.lastError ?? null,
+        },
+      };
+    });
+
+    return {
+      checkedAt: this.lastCheckedAt ? new Date(this.lastCheckedAt).toISOString() : null,
+      medianBlockNumber: median?.toString() ?? null,
+      maxBlockLag,
+      healthyCount: endpoints.filter(endpoint => endpoint.healthy).length,
+      laggingCount: endpoints.filter(endpoint => endpoint.lagging).length,
+      totalCount: endpoints.length,
+      endpoints,
+    };
+  }
+}
+
+// Singleton instance
+let rpcHealthMonitorInstance: RpcHealthMonitor | null = null;
+
+/**
+ * Get RpcHealthMonitor singleton
+ */
+export function getRpcHealthMonitor(pool?: RpcPool): RpcHealthMonitor {
+  if (!rpcHealthMonitorInstance && pool) {
+    rpcHealthMonitorInstance = new RpcHealthMonitor(pool, {
+      interval: parseInt(process.env.RPC_PROBE_INTERVAL_MS || '15000', 10),
+      windowSize: parseInt(process.env.RPC_PROBE_WINDOW || '20', 10),
+    });
+  }
+
+  if (!rpcHealthMonitorInstance) {
+    throw new Error('RpcHealthMonitor not initialized. Provide a pool on first call.');
+  }
+
+  return rpcHealthMonitorInstance;
+}
+
+/**
+ * Shutdown RpcHealthMonitor
+ */
+export function shutdownRpcHealthMonitor(): void {
+  if (rpcHealthMonitorInstance) {
+    rpcHealthMonitorInstance.stop();
+    rpcHealthMonitorInstance = null;
+    console.log('✅ RpcHealthMonitor shut down');
+  }
+}
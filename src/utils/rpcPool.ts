@@ -0,0 +1,393 @@
+/**
+ * RPC Pool
+ * Failover viem transport over a list of RPC endpoints
+ * Endpoints are picked by health score and latency; failing or lagging endpoints are ejected for a while
+ */
+
+import {
+  type Chain,
+  type Transport,
+  BaseError,
+  custom,
+  HttpRequestError,
+  RpcRequestError,
+  TimeoutError,
+} from 'viem';
+import { getHttpRpcClient, type HttpRpcClient } from 'viem/utils';
+import { getChainRpcUrls } from './chains.js';
+import { errorMessage } from './errors.js';
+
+export interface RpcPoolOptions {
+  timeout?: number;                 // Per-request timeout (milliseconds)
+  maxAttempts?: number;             // Endpoints tried per request before giving up
+  maxConsecutiveFailures?: number;  // Failures in a row before an endpoint is ejected
+  ejectMs?: number;                 // First ejection period, doubled on each repeat (capped at maxEjectMs)
+  maxEjectMs?: number;
+  maxBlockLag?: number;             // Blocks behind the median height before an endpoint counts as stale
+}
+
+export interface RpcEndpointStatus {
+  url: string;                      // Masked (no path / API key)
+  healthy: boolean;
+  score: number;                    // Success rate EWMA (0-1)
+  latencyMs: number | null;         // Latency EWMA, null until the first success
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  blockNumber: string | null;
+  ejectedUntil: number | null;
+  ejectReason: string | null;
+  lastError: string | null;
+}
+
+export type RpcProbeResult =
+  | { url: string; ok: true; blockNumber: bigint; latencyMs: number }
+  | { url: string; ok: false; error: string; latencyMs: number };
+
+interface RpcEndpoint {
+  url: string;
+  client: HttpRpcClient;
+  score: number;
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  ejections: number;
+  blockNumber: bigint | null;
+  ejectedUntil: number;
+  ejectReason: string | null;
+  stale: boolean;                   // Ejected for lagging (reinstated as soon as it catches up)
+  lastError: string | null;
+}
+
+// Latency assumed for endpoints that haven't answered yet (so they still get sampled)
+const DEFAULT_LATENCY_MS = 300;
+const EWMA_ALPHA = 0.2;
+const MIN_SCORE = 0.05;
+
+// Sending a transaction twice can fail with "already known" / nonce errors, so it is never retried elsewhere
+const SINGLE_ATTEMPT_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+// JSON-RPC errors that indicate a problem with the node rather than with the request
+const ENDPOINT_RPC_ERROR_CODES = new Set([-32005, -32601]);
+const ENDPOINT_RPC_ERROR_PATTERN = /rate limit|too many requests|header not found|missing trie node|unknown block/i;
+
+/**
+ * Strip path and query from an RPC URL (they often carry API keys)
+ */
+export function maskRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname.length > 1 ? `${parsed.origin}/…` : parsed.origin;
+  } catch {
+    return 'invalid-url';
+  }
+}
+
+/**
+ * Whether an error means the endpoint is unusable (as opposed to the request being bad, e.g. a revert)
+ */
+function isEndpointError(error: unknown): boolean {
+  if (error instanceof HttpRequestError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof RpcRequestError) {
+    return ENDPOINT_RPC_ERROR_CODES.has(error.code) || ENDPOINT_RPC_ERROR_PATTERN.test(error.details || error.message);
+  }
+  // fetch / socket failures that never reached JSON-RPC
+  return typeof (error as { code?: unknown } | null)?.code !== 'number';
+}
+
+/**
+ * RPC Endpoint Pool
+ */
+export class RpcPool {
+  private endpoints: RpcEndpoint[];
+
+  private readonly timeout: number;
+  private readonly maxAttempts: number;
+  private readonly maxConsecutiveFailures: number;
+  private readonly ejectMs: number;
+  private readonly maxEjectMs: number;
+  private readonly maxBlockLag: bigint;
+
+  constructor(urls: readonly string[], options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('RpcPool requires at least one RPC URL');
+    }
+
+    this.timeout = options.timeout || 10000;
+    this.maxAttempts = Math.min(options.maxAttempts || 3, urls.length);
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures || 3;
+    this.ejectMs = options.ejectMs || 30000;
+    this.maxEjectMs = options.maxEjectMs || 300000;
+    this.maxBlockLag = BigInt(options.maxBlockLag ?? 5);
+
+    this.endpoints = [...new Set(urls)].map(url => ({
+      url,
+      client: getHttpRpcClient(url, { timeout: this.timeout }),
+      score: 1,
+      latencyMs: null,
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      ejections: 0,
+      blockNumber: null,
+      ejectedUntil: 0,
+      ejectReason: null,
+      stale: false,
+      lastError: null,
+    }));
+  }
+
+  /**
+   * viem transport backed by this pool
+   */
+  transport(): Transport {
+    return custom(
+      { request: ({ method, params }: { method: string; params?: unknown }) => this.request(method, params) },
+      // Failover replaces viem's same-endpoint retries
+      { name: 'RPC Pool', retryCount: 0 }
+    );
+  }
+
+  /**
+   * Send a JSON-RPC request, failing over to other endpoints on endpoint errors
+   */
+  async request(method: string, params?: unknown): Promise<unknown> {
+    const attempts = SINGLE_ATTEMPT_METHODS.has(method) ? 1 : this.maxAttempts;
+    const tried = new Set<RpcEndpoint>();
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const endpoint = this.select(tried);
+      if (!endpoint) break;
+      tried.add(endpoint);
+
+      const startedAt = Date.now();
+      try {
+        const result = await this.send(endpoint, method, params);
+
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        if (method === 'eth_blockNumber' && typeof result === 'string') {
+          this.recordBlockNumber(endpoint.url, BigInt(result));
+          // The answer itself showed the endpoint is stale; ask another one
+          if (endpoint.ejectedUntil > Date.now() && attempt + 1 < attempts) continue;
+        }
+        return result;
+      } catch (error) {
+        if (!isEndpointError(error)) {
+          // The node answered; the request itself failed (revert, bad params, ...)
+          this.recordSuccess(endpoint, Date.now() - startedAt);
+          throw error;
+        }
+
+        this.recordFailure(endpoint, (error as BaseError).shortMessage || errorMessage(error));
+        lastError = error;
+        if (attempt + 1 < attempts) {
+          console.warn(`⚠️ RpcPool - ${method} failed on ${maskRpcUrl(endpoint.url)}, failing over: ${(error as BaseError).shortMessage || errorMessage(error)}`);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Read the block height of one specific endpoint (ejected or not) and record the outcome
+   */
+  async probe(url: string): Promise<RpcProbeResult> {
+    const endpoint = this.endpoints.find(candidate => candidate.url === url);
+    if (!endpoint) {
+      throw new Error(`Unknown RPC endpoint: ${maskRpcUrl(url)}`);
+    }
+
+    const startedAt = Date.now();
+    try {
+      const blockNumber = BigInt(await this.send(endpoint, 'eth_blockNumber') as string);
+      const latencyMs = Date.now() - startedAt;
+      this.recordSuccess(endpoint, latencyMs);
+      this.recordBlockNumber(url, blockNumber);
+      return { url, ok: true, blockNumber, latencyMs };
+    } catch (error) {
+      const message = (error as BaseError).shortMessage || errorMessage(error);
+      this.recordFailure(endpoint, message);
+      return { url, ok: false, error: message, latencyMs: Date.now() - startedAt };
+    }
+  }
+
+  /**
+   * Record a block height seen on an endpoint
+   * Endpoints more than maxBlockLag behind the median are ejected as stale; stale ones that caught up are reinstated
+   */
+  recordBlockNumber(url: string, blockNumber: bigint) {
+    const endpoint = this.endpoints.find(candidate => candidate.url === url);
+    if (!endpoint) return;
+    endpoint.blockNumber = blockNumber;
+
+    const median = this.getMedianBlockNumber();
+    if (median === null) return;
+
+    if (endpoint.stale && median - blockNumber <= this.maxBlockLag) {
+      endpoint.stale = false;
+      endpoint.ejectedUntil = 0;
+      endpoint.ejectReason = null;
+      console.log(`✅ RpcPool - ${maskRpcUrl(endpoint.url)} caught up (block ${blockNumber}), reinstated`);
+    }
+
+    const now = Date.now();
+    for (const candidate of this.endpoints) {
+      if (candidate.blockNumber !== null && median - candidate.blockNumber > this.maxBlockLag && candidate.ejectedUntil <= now) {
+        this.eject(candidate, `stale (block ${candidate.blockNumber}, median ${median})`, true);
+      }
+    }
+  }
+
+  /**
+   * Median of the latest block heights reported by the endpoints
+   */
+  getMedianBlockNumber(): bigint | null {
+    const heights = this.endpoints
+      .map(endpoint => endpoint.blockNumber)
+      .filter((height): height is bigint => height !== null)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    if (heights.length === 0) return null;
+
+    const middle = Math.floor(heights.length / 2);
+    return heights.length % 2 === 1 ? heights[middle] : (heights[middle - 1] + heights[middle]) / 2n;
+  }
+
+  getMaxBlockLag(): number {
+    return Number(this.maxBlockLag);
+  }
+
+  getUrls(): string[] {
+    return this.endpoints.map(endpoint => endpoint.url);
+  }
+
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => {
+      const ejected = endpoint.ejectedUntil > now;
+      return {
+        url: maskRpcUrl(endpoint.url),
+        healthy: !ejected,
+        score: Math.round(endpoint.score * 1000) / 1000,
+        latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+        consecutiveFailures: endpoint.consecutiveFailures,
+        totalRequests: endpoint.totalRequests,
+        totalFailures: endpoint.totalFailures,
+        blockNumber: endpoint.blockNumber?.toString() ?? null,
+        ejectedUntil: ejected ? endpoint.ejectedUntil : null,
+        ejectReason: ejected ? endpoint.ejectReason : null,
+        lastError: endpoint.lastError,
+      };
+    });
+  }
+
+  /**
+   * Weighted random pick among healthy endpoints (weight = score² / latency)
+   * When every endpoint is ejected, the one whose ejection ends first is used
+   */
+  private select(exclude: Set<RpcEndpoint>): RpcEndpoint | null {
+    const now = Date.now();
+    const candidates = this.endpoints.filter(endpoint => !exclude.has(endpoint));
+    if (candidates.length === 0) return null;
+
+    const healthy = candidates.filter(endpoint => endpoint.ejectedUntil <= now);
+    if (healthy.length === 0) {
+      return candidates.reduce((best, endpoint) => (endpoint.ejectedUntil < best.ejectedUntil ? endpoint : best));
+    }
+
+    const weights = healthy.map(endpoint => {
+      const score = Math.max(endpoint.score, MIN_SCORE);
+      return (score * score) / Math.max(endpoint.latencyMs ?? DEFAULT_LATENCY_MS, 1);
+    });
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let pick = Math.random() * total;
+    for (let i = 0; i < healthy.length; i++) {
+      pick -= weights[i];
+      if (pick <= 0) return healthy[i];
+    }
+    return healthy[healthy.length - 1];
+  }
+
+  private async send(endpoint: RpcEndpoint, method: string, params?: unknown): Promise<unknown> {
+    const body = { method, params };
+    const { error, result } = await endpoint.client.request({ body });
+    if (error) {
+      throw new RpcRequestError({ body, error, url: endpoint.url });
+    }
+    return result;
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number) {
+    endpoint.totalRequests++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.score = endpoint.score * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+
+    // An endpoint that stays healthy for a while is forgiven its earlier ejections
+    if (endpoint.score > 0.95) {
+      endpoint.ejections = 0;
+    }
+  }
+
+  private recordFailure(endpoint: RpcEndpoint, message: string) {
+    endpoint.totalRequests++;
+    endpoint.totalFailures++;
+    endpoint.consecutiveFailures++;
+    endpoint.score = endpoint.score * (1 - EWMA_ALPHA);
+    endpoint.lastError = message;
+
+    if (endpoint.consecutiveFailures >= this.maxConsecutiveFailures) {
+      this.eject(endpoint, `${endpoint.consecutiveFailures} consecutive failures`);
+    }
+  }
+
+  private eject(endpoint: RpcEndpoint, reason: string, stale = false) {
+    const duration = Math.min(this.ejectMs * 2 ** endpoint.ejections, this.maxEjectMs);
+    endpoint.ejections++;
+    endpoint.ejectedUntil = Date.now() + duration;
+    endpoint.ejectReason = reason;
+    endpoint.stale = stale;
+    endpoint.consecutiveFailures = 0;
+    if (!stale) {
+      endpoint.blockNumber = null; // Must report a fresh height before it can be judged stale again
+    }
+    console.warn(`🚫 RpcPool - Ejected ${maskRpcUrl(endpoint.url)} for ${Math.round(duration / 1000)}s: ${reason}`);
+  }
+}
+
+// One pool per chain
+const rpcPoolInstances = new Map<number, RpcPool>();
+
+/**
+ * Get the RPC pool for a chain (endpoints from getChainRpcUrls)
+ */
+export function getRpcPool(chain: Chain): RpcPool {
+  let instance = rpcPoolInstances.get(chain.id);
+  if (!instance) {
+    instance = new RpcPool(getChainRpcUrls(chain), {
+      timeout: parseInt(process.env.RPC_TIMEOUT_MS || '10000', 10),
+      maxAttempts: parseInt(process.env.RPC_MAX_ATTEMPTS || '3', 10),
+      maxConsecutiveFailures: parseInt(process.env.RPC_MAX_CONSECUTIVE_FAILURES || '3', 10),
+      ejectMs: parseInt(process.env.RPC_EJECT_MS || '30000', 10),
+      maxBlockLag: parseInt(process.env.RPC_MAX_BLOCK_LAG || '5', 10),
+    });
+    rpcPoolInstances.set(chain.id, instance);
+    console.log(`✅ RpcPool initialized with ${instance.getUrls().length} ${chain.name} endpoints`);
+  }
+
+  return instance;
+}
+
+/**
+ * viem transport over a chain's RPC pool
+ */
+export function getChainTransport(chain: Chain): Transport {
+  return getRpcPool(chain).transport();
+}
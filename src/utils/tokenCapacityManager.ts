@@ -3,10 +3,16 @@
  * Manages token mint capacity to prevent exceeding maxMintCount limit
  */
 
-import { Address, createPublicClient, http } from 'viem';
+import { randomUUID } from 'crypto';
+import { type Address, type Chain, type PublicClient, type Transport, createPublicClient } from 'viem';
 import { Redis } from 'ioredis';
 import { RedisConnectionManager } from './redisConnectionPool.js';
-import { getRandomBscRpc } from 'x402/src/types/shared/evm/wallet.js';
+import { type MintCountWatcher, MINT_COUNT_PREFIX } from './mintCountWatcher.js';
+import { ImmutableConfigCache } from './immutableConfigCache.js';
+import { publishCapacityUpdate } from './capacityStream.js';
+import { type ReadAggregator, getReadAggregator } from './readAggregator.js';
+import { getChainTransport } from './rpcPool.js';
+import { type CodedError, errorMessage } from './errors.js';
 
 // X402 Token ABI
 const X402_TOKEN_ABI = [
@@ -36,39 +42,35 @@ const X402_TOKEN_ABI = [
 /**
  * TokenDeadlineCache
  * Permanent cache for deployment deadline (contract configuration, never changes)
+ * Shared across instances through Redis so cold replicas don't all hit RPC for the same token
  */
 export class TokenDeadlineCache {
-  private cache = new Map<string, bigint>(); // Permanent cache
-  private publicClient: any;
-
-  constructor(chain: any) {
-    this.publicClient = createPublicClient({
-      chain,
-      transport: http(getRandomBscRpc()),
-    });
+  private cache: ImmutableConfigCache<bigint>;
+  private reader: ReadAggregator;
+
+  constructor(chain: Chain, redisUrl?: string) {
+    this.reader = getReadAggregator(chain);
+    this.cache = new ImmutableConfigCache('deployment_deadline', chain.id, {
+      serialize: value => value.toString(),
+      deserialize: raw => BigInt(raw),
+    }, redisUrl);
   }
 
   /**
    * Get the deployment deadline for a token (permanent cache)
    */
   async getDeploymentDeadline(tokenAddress: Address): Promise<bigint> {
-    const cacheKey = tokenAddress.toLowerCase();
-    const cached = this.cache.get(cacheKey);
-
-    if (cached !== undefined) {
-      return cached; // Permanent cache - once fetched, never query again
-    }
-
-    console.log(`🔍 Fetching deploymentDeadline for token ${tokenAddress} from chain...`);
-    const deadline = await this.publicClient.readContract({
-      address: tokenAddress,
-      abi: X402_TOKEN_ABI,
-      functionName: 'deploymentDeadline',
-    }) as bigint;
+    return this.cache.get(tokenAddress, async () => {
+      console.log(`🔍 Fetching deploymentDeadline for token ${tokenAddress} from chain...`);
+      const deadline = await this.reader.read({
+        address: tokenAddress,
+        abi: X402_TOKEN_ABI,
+        functionName: 'deploymentDeadline',
+      }) as bigint;
 
-    console.log(`   ✅ Deployment deadline: ${deadline} (${new Date(Number(deadline) * 1000).toISOString()})`);
-    this.cache.set(cacheKey, deadline); // Store permanently
-    return deadline;
+      console.log(`   ✅ Deployment deadline: ${deadline} (${new Date(Number(deadline) * 1000).toISOString()})`);
+      return deadline;
+    });
   }
 
   /**
@@ -84,88 +86,146 @@ export class TokenDeadlineCache {
    * Clear cache for a specific token (for testing only)
    */
   clearCache(tokenAddress?: Address) {
-    if (tokenAddress) {
-      this.cache.delete(tokenAddress.toLowerCase());
-    } else {
-      this.cache.clear();
-    }
+    this.cache.clear(tokenAddress);
   }
 }
 
 /**
  * TokenMaxMint cache
  * Permanent cache for maximum mint count (contract configuration, never changes)
+ * Shared across instances through Redis so cold replicas don't all hit RPC for the same token
  */
 export class TokenMaxMintCache {
-  private cache = new Map<string, number>();
-  private publicClient: any;
-
-  constructor(chain: any) {
-    this.publicClient = createPublicClient({
-      chain,
-      transport: http(getRandomBscRpc()),
-    });
+  private cache: ImmutableConfigCache<number>;
+  private reader: ReadAggregator;
+
+  constructor(chain: Chain, redisUrl?: string) {
+    this.reader = getReadAggregator(chain);
+    this.cache = new ImmutableConfigCache('max_mint_count', chain.id, {
+      serialize: value => value.toString(),
+      deserialize: raw => Number(raw),
+    }, redisUrl);
   }
 
   /**
    * Get the maximum mint count for a token (permanent cache)
    */
   async getMaxMintCount(tokenAddress: Address): Promise<number> {
-    const cacheKey = tokenAddress.toLowerCase();
-    const cached = this.cache.get(cacheKey);
-
-    // Permanent cache - once fetched, never query again
-    if (cached !== undefined) {
-      return cached;
-    }
-
-    // Fetch from chain (only first time)
-    console.log(`🔄 TokenMaxMintCache - First time fetching maxMintCount for ${tokenAddress}`);
-    try {
-      const maxCount = await this.publicClient.readContract({
-        address: tokenAddress,
-        abi: X402_TOKEN_ABI,
-        functionName: 'maxMintCount',
-      });
-
-      const value = Number(maxCount);
-      
-      // Permanent cache
-      this.cache.set(cacheKey, value);
+    return this.cache.get(tokenAddress, async () => {
+      console.log(`🔄 TokenMaxMintCache - First time fetching maxMintCount for ${tokenAddress}`);
+      try {
+        const maxCount = await this.reader.read({
+          address: tokenAddress,
+          abi: X402_TOKEN_ABI,
+          functionName: 'maxMintCount',
+        });
+
+        const value = Number(maxCount);
+        console.log(`✅ TokenMaxMintCache - Permanently cached maxMintCount for ${tokenAddress}: ${value}`);
+        return value;
+      } catch (error) {
+        console.error(`❌ TokenMaxMintCache - Failed to fetch maxMintCount for ${tokenAddress}:`, errorMessage(error));
+        throw error;
+      }
+    });
+  }
 
-      console.log(`✅ TokenMaxMintCache - Permanently cached maxMintCount for ${tokenAddress}: ${value}`);
-      return value;
-    } catch (error: any) {
-      console.error(`❌ TokenMaxMintCache - Failed to fetch maxMintCount for ${tokenAddress}:`, error.message);
-      throw error;
-    }
+  /**
+   * Store a maxMintCount known from the factory's TokenCreated event (no RPC call)
+   */
+  async prime(tokenAddress: Address, maxMintCount: number): Promise<void> {
+    await this.cache.prime(tokenAddress, maxMintCount);
   }
 
   /**
    * Clear cache (for testing or manual refresh)
    */
   clearCache(tokenAddress?: Address) {
+    this.cache.clear(tokenAddress);
     if (tokenAddress) {
-      this.cache.delete(tokenAddress.toLowerCase());
       console.log(`🗑️ Cleared maxMintCount cache for ${tokenAddress}`);
     } else {
-      this.cache.clear();
       console.log(`🗑️ Cleared all maxMintCount cache`);
     }
   }
 }
 
+// Pending slots are individual holds: ZSET <holds> (reservationId -> expiry ms) + HASH <counts> (reservationId -> slots)
+// Every script first sweeps expired holds, so pending counts self-heal after a crash between reserve and release
+// KEYS[1] = holds key, KEYS[2] = counts key; ARGV[1] = now (ms)
+const SWEEP_HOLDS_LUA = `
+local now = tonumber(ARGV[1])
+local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', now)
+if #expired > 0 then
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+  redis.call('HDEL', KEYS[2], unpack(expired))
+end
+local pending = 0
+for _, slots in ipairs(redis.call('HVALS', KEYS[2])) do
+  pending = pending + tonumber(slots)
+end
+`;
+
+// Returns pending slots after sweeping
+const PENDING_COUNT_SCRIPT = SWEEP_HOLDS_LUA + `
+return pending
+`;
+
+// Atomically add a hold of `requested` slots if current + pending + requested <= max
+// KEYS[3] = the token's shared mint count (MintCountWatcher); the higher of it and ARGV[2] is used, so a count
+// published together with a hold release is never missed between the caller's read and this script
+// ARGV[2] = current mint count read by the caller, ARGV[3] = max mint count, ARGV[4] = requested,
+// ARGV[5] = reservationId, ARGV[6] = hold TTL (ms)
+// Returns { reserved (0/1), pending after the call, mint count used }
+const RESERVE_HOLD_SCRIPT = SWEEP_HOLDS_LUA + `
+local current = tonumber(ARGV[2])
+local shared = tonumber(string.match(redis.call('GET', KEYS[3]) or '', '"count":(%d+)'))
+if shared then
+  current = math.max(current, shared)
+end
+local max = tonumber(ARGV[3])
+local requested = tonumber(ARGV[4])
+if current + pending + requested > max then
+  return {0, pending, current}
+end
+local ttl = tonumber(ARGV[6])
+redis.call('ZADD', KEYS[1], now + ttl, ARGV[5])
+redis.call('HSET', KEYS[2], ARGV[5], requested)
+redis.call('PEXPIRE', KEYS[1], ttl)
+redis.call('PEXPIRE', KEYS[2], ttl)
+return {1, pending + requested, current}
+`;
+
+// Remove one hold; ARGV[2] = reservationId
+// Returns { released slots, pending after the call }
+const RELEASE_HOLD_SCRIPT = SWEEP_HOLDS_LUA + `
+local slots = tonumber(redis.call('HGET', KEYS[2], ARGV[2]) or '0')
+redis.call('ZREM', KEYS[1], ARGV[2])
+redis.call('HDEL', KEYS[2], ARGV[2])
+return {slots, pending - slots}
+`;
+
 /**
  * Pending Mint tracker
  * Real-time tracking of mint count waiting for execution in mempool
+ * Each reservation is a hold with its own expiry, released by its reservation id
+ * Reserves, releases and clears are announced on the token's capacity_updates channel
  */
 export class PendingMintTracker {
   private redis: Redis | null = null;
   private redisUrl: string | undefined;
-  private readonly keyPrefix = 'pending_mint:';
+  private readonly keyPrefix: string;
+  private readonly mintCountPrefix: string;
+  private readonly holdTtlMs: number;
 
-  constructor(redisUrl?: string) {
+  /**
+   * @param chainId Chain the tokens live on (part of the Redis keys)
+   */
+  constructor(chainId: number, redisUrl?: string, holdTtlMs: number = 600000) {
+    this.keyPrefix = `pending_mint:${chainId}:`;
+    this.mintCountPrefix = `${MINT_COUNT_PREFIX}${chainId}:`;
     this.redisUrl = redisUrl;
+    this.holdTtlMs = holdTtlMs;
   }
 
   private async ensureConnection(): Promise<Redis | null> {
@@ -175,62 +235,85 @@ export class PendingMintTracker {
     return this.redis;
   }
 
+  private getKeys(tokenAddress: Address): [string, string] {
+    const token = tokenAddress.toLowerCase();
+    return [`${this.keyPrefix}holds:${token}`, `${this.keyPrefix}counts:${token}`];
+  }
+
   /**
-   * Increment pending count (when task is added to queue)
+   * Add a hold only if the reservation fits under maxMintCount (atomic)
+   * @param currentMintCount Count read by the caller, superseded by a higher shared count in Redis
+   * @returns Whether the slots were reserved, the pending count after the call and the mint count checked against
    */
-  async incrementPending(tokenAddress: Address, count: number): Promise<number> {
+  async tryReservePending(
+    tokenAddress: Address,
+    reservationId: string,
+    count: number,
+    currentMintCount: number,
+    maxMintCount: number
+  ): Promise<{ reserved: boolean; pendingCount: number; currentMintCount: number }> {
     const redis = await this.ensureConnection();
     if (!redis) {
-      console.warn('⚠️ PendingMintTracker - Redis not available, returning 0');
-      return 0;
+      console.warn('⚠️ PendingMintTracker - Redis not available, checking without pending count');
+      return { reserved: currentMintCount + count <= maxMintCount, pendingCount: 0, currentMintCount };
     }
 
-    const key = this.keyPrefix + tokenAddress.toLowerCase();
-    try {
-      const newCount = await redis.incrby(key, count);
-      console.log(`📈 PendingMintTracker - Incremented ${tokenAddress} by ${count}, new total: ${newCount}`);
-      
-      // Set expiration time to prevent data accumulation (1 hour)
-      await redis.expire(key, 3600);
-      
-      return newCount;
-    } catch (error: any) {
-      console.error(`❌ PendingMintTracker - Failed to increment pending for ${tokenAddress}:`, error.message);
-      return 0;
+    const [reserved, pendingCount, checkedMintCount] = await redis.eval(
+      RESERVE_HOLD_SCRIPT,
+      3,
+      ...this.getKeys(tokenAddress),
+      this.mintCountPrefix + tokenAddress.toLowerCase(),
+      Date.now(),
+      currentMintCount,
+      maxMintCount,
+      count,
+      reservationId,
+      this.holdTtlMs
+    ) as [number, number, number];
+
+    if (reserved === 1) {
+      console.log(`📈 PendingMintTracker - Hold ${reservationId} reserved ${count} for ${tokenAddress}, new total: ${pendingCount}`);
+      void publishCapacityUpdate(redis, tokenAddress, 'pending');
+    } else {
+      console.log(`🚫 PendingMintTracker - Rejected ${count} for ${tokenAddress} (minted: ${checkedMintCount}, pending: ${pendingCount})`);
     }
+    return { reserved: reserved === 1, pendingCount, currentMintCount: checkedMintCount };
   }
 
   /**
-   * Decrement pending count (when mint execution is completed)
+   * Release a hold (when mint execution is completed or failed)
    */
-  async decrementPending(tokenAddress: Address, count: number): Promise<number> {
+  async releaseHold(tokenAddress: Address, reservationId: string): Promise<number> {
     const redis = await this.ensureConnection();
     if (!redis) {
       console.warn('⚠️ PendingMintTracker - Redis not available, returning 0');
       return 0;
     }
 
-    const key = this.keyPrefix + tokenAddress.toLowerCase();
     try {
-      const newCount = await redis.decrby(key, count);
-      
-      // If count becomes 0 or negative, delete key
-      if (newCount <= 0) {
-        await redis.del(key);
-        console.log(`🔻 PendingMintTracker - Decremented ${tokenAddress} by ${count}, removed key (was ${newCount})`);
-        return 0;
+      const [released, pendingCount] = await redis.eval(
+        RELEASE_HOLD_SCRIPT,
+        2,
+        ...this.getKeys(tokenAddress),
+        Date.now(),
+        reservationId
+      ) as [number, number];
+
+      if (released === 0) {
+        console.log(`🔻 PendingMintTracker - Hold ${reservationId} for ${tokenAddress} already released or expired`);
+      } else {
+        console.log(`🔻 PendingMintTracker - Released hold ${reservationId} (${released}) for ${tokenAddress}, new total: ${pendingCount}`);
+        void publishCapacityUpdate(redis, tokenAddress, 'pending');
       }
-      
-      console.log(`🔻 PendingMintTracker - Decremented ${tokenAddress} by ${count}, new total: ${newCount}`);
-      return newCount;
-    } catch (error: any) {
-      console.error(`❌ PendingMintTracker - Failed to decrement pending for ${tokenAddress}:`, error.message);
+      return pendingCount;
+    } catch (error) {
+      console.error(`❌ PendingMintTracker - Failed to release hold for ${tokenAddress}:`, errorMessage(error));
       return 0;
     }
   }
 
   /**
-   * Get current pending count
+   * Get current pending count (expired holds are swept first)
    */
   async getPendingCount(tokenAddress: Address): Promise<number> {
     const redis = await this.ensureConnection();
@@ -239,30 +322,27 @@ export class PendingMintTracker {
       return 0;
     }
 
-    const key = this.keyPrefix + tokenAddress.toLowerCase();
     try {
-      const count = await redis.get(key);
-      const value = count ? parseInt(count, 10) : 0;
-      return value;
-    } catch (error: any) {
-      console.error(`❌ PendingMintTracker - Failed to get pending count for ${tokenAddress}:`, error.message);
+      return await redis.eval(PENDING_COUNT_SCRIPT, 2, ...this.getKeys(tokenAddress), Date.now()) as number;
+    } catch (error) {
+      console.error(`❌ PendingMintTracker - Failed to get pending count for ${tokenAddress}:`, errorMessage(error));
       return 0;
     }
   }
 
   /**
-   * Clear pending count for a specific token
+   * Clear all holds for a specific token
    */
   async clearPending(tokenAddress: Address): Promise<void> {
     const redis = await this.ensureConnection();
     if (!redis) return;
 
-    const key = this.keyPrefix + tokenAddress.toLowerCase();
     try {
-      await redis.del(key);
+      await redis.del(...this.getKeys(tokenAddress));
       console.log(`🗑️ PendingMintTracker - Cleared pending for ${tokenAddress}`);
-    } catch (error: any) {
-      console.error(`❌ PendingMintTracker - Failed to clear pending for ${tokenAddress}:`, error.message);
+      void publishCapacityUpdate(redis, tokenAddress, 'pending');
+    } catch (error) {
+      console.error(`❌ PendingMintTracker - Failed to clear pending for ${tokenAddress}:`, errorMessage(error));
     }
   }
 }
@@ -277,6 +357,21 @@ export interface TokenCapacityInfo {
   availableSlots: number;    // Available capacity
 }
 
+/**
+ * Thrown (code CAPACITY_EXCEEDED) when a request doesn't fit under maxMintCount
+ */
+export interface CapacityExceededError extends CodedError {
+  capacityInfo: TokenCapacityInfo;
+}
+
+/**
+ * Capacity held for one request until it is released or expires
+ */
+export interface TokenCapacityReservation extends TokenCapacityInfo {
+  reservationId: string;     // Pass to releaseCapacity
+  expiresAt: number;         // Hold expiry (ms), swept automatically afterwards
+}
+
 /**
  * Token capacity manager
  * Integrates maxMintCount cache and pending tracking
@@ -284,83 +379,135 @@ export interface TokenCapacityInfo {
 export class TokenCapacityManager {
   private tokenCache: TokenMaxMintCache;
   private pendingTracker: PendingMintTracker;
-  private publicClient: any;
+  private reader: ReadAggregator;
+  private publicClient: PublicClient<Transport, Chain>;   // Block-pinned reads after a mint (the aggregator always reads latest)
   
   // MintCount short-term cache (6 seconds)
   private mintCountCache = new Map<string, { value: number; fetchedAt: number }>();
   private readonly mintCountTTL = 6000; // 6 seconds
+  private readonly holdTtlMs: number;
 
-  constructor(chain: any, redisUrl?: string) {
-    this.tokenCache = new TokenMaxMintCache(chain);
-    this.pendingTracker = new PendingMintTracker(redisUrl);
+  // Shared per-block mintCount values (polling below is the fallback)
+  private mintCountWatcher: MintCountWatcher | null = null;
+
+  /**
+   * @param holdTtlMs Lifetime of a capacity hold (must outlast settle + mint)
+   */
+  constructor(chain: Chain, redisUrl?: string, holdTtlMs: number = 600000) {
+    this.holdTtlMs = holdTtlMs;
+    this.tokenCache = new TokenMaxMintCache(chain, redisUrl);
+    this.pendingTracker = new PendingMintTracker(chain.id, redisUrl, holdTtlMs);
+    this.reader = getReadAggregator(chain);
     this.publicClient = createPublicClient({
       chain,
-      transport: http(getRandomBscRpc()),
+      transport: getChainTransport(chain),
     });
   }
 
   /**
-   * Check if token has sufficient capacity
-   * @returns Capacity information, throws error if capacity is insufficient
+   * Check and reserve capacity in one atomic Redis operation (called before settle)
+   * Concurrent callers can't both pass the check and oversubscribe maxMintCount
+   * @returns Reservation (id + capacity information after it), throws error if capacity is insufficient
    */
-  async checkCapacity(tokenAddress: Address, requestedCount: number): Promise<TokenCapacityInfo> {
-    console.log(`🔍 TokenCapacityManager - Checking capacity for ${tokenAddress}, requested: ${requestedCount}`);
+  async checkAndReserveCapacity(tokenAddress: Address, requestedCount: number): Promise<TokenCapacityReservation> {
+    console.log(`🔒 TokenCapacityManager - Checking and reserving ${requestedCount} slots for ${tokenAddress}`);
+    // Tokens being minted get their count refreshed every block
+    void this.mintCountWatcher?.markActive(tokenAddress);
 
-    // Get all required data in parallel
-    const [currentMintCount, maxMintCount, pendingCount] = await Promise.all([
+    const [mintCount, maxMintCount] = await Promise.all([
       this.getCurrentMintCount(tokenAddress),
       this.tokenCache.getMaxMintCount(tokenAddress),
-      this.pendingTracker.getPendingCount(tokenAddress),
     ]);
 
-    const totalExpected = currentMintCount + pendingCount + requestedCount;
-    const availableSlots = maxMintCount - currentMintCount - pendingCount;
+    const reservationId = randomUUID();
+    const { reserved, pendingCount, currentMintCount } = await this.pendingTracker.tryReservePending(
+      tokenAddress,
+      reservationId,
+      requestedCount,
+      mintCount,
+      maxMintCount
+    );
 
     const capacityInfo: TokenCapacityInfo = {
       maxMintCount,
       currentMintCount,
       pendingCount,
-      availableSlots,
+      availableSlots: maxMintCount - currentMintCount - pendingCount,
     };
 
-    console.log(`📊 TokenCapacityManager - Capacity check results:
-      Max: ${maxMintCount}
-      Current: ${currentMintCount}
-      Pending: ${pendingCount}
-      Requested: ${requestedCount}
-      Available: ${availableSlots}
-      Total if approved: ${totalExpected}`);
-
-    if (totalExpected > maxMintCount) {
-      const error = new Error('Insufficient mint capacity');
-      (error as any).code = 'CAPACITY_EXCEEDED';
-      (error as any).capacityInfo = capacityInfo;
+    if (!reserved) {
+      const error = new Error('Insufficient mint capacity') as CapacityExceededError;
+      error.code = 'CAPACITY_EXCEEDED';
+      error.capacityInfo = capacityInfo;
       throw error;
     }
 
-    return capacityInfo;
+    return { ...capacityInfo, reservationId, expiresAt: Date.now() + this.holdTtlMs };
+  }
+
+  /**
+   * Release a reservation (called when settlement fails; mints go through releaseAfterMint)
+   */
+  async releaseCapacity(tokenAddress: Address, reservationId: string): Promise<void> {
+    console.log(`🔓 TokenCapacityManager - Releasing reservation ${reservationId} for ${tokenAddress}`);
+    await this.pendingTracker.releaseHold(tokenAddress, reservationId);
   }
 
   /**
-   * Reserve capacity (called before settle)
+   * Read mint counts from a MintCountWatcher when it has a fresh value
    */
-  async reserveCapacity(tokenAddress: Address, count: number): Promise<void> {
-    console.log(`🔒 TokenCapacityManager - Reserving ${count} slots for ${tokenAddress}`);
-    await this.pendingTracker.incrementPending(tokenAddress, count);
+  setMintCountWatcher(watcher: MintCountWatcher | null): void {
+    this.mintCountWatcher = watcher;
   }
 
   /**
-   * Release capacity (called when mint completes or fails)
+   * Store a token's maxMintCount known from the factory's TokenCreated event
    */
-  async releaseCapacity(tokenAddress: Address, count: number): Promise<void> {
-    console.log(`🔓 TokenCapacityManager - Releasing ${count} slots for ${tokenAddress}`);
-    await this.pendingTracker.decrementPending(tokenAddress, count);
+  async primeMaxMintCount(tokenAddress: Address, maxMintCount: number): Promise<void> {
+    await this.tokenCache.prime(tokenAddress, maxMintCount);
   }
 
   /**
-   * Get current on-chain mint count (with 6-second cache)
+   * Release a reservation once its mint has confirmed or failed
+   * Other replicas trust their shared / cached mintCount, so the hold is only dropped after the on-chain
+   * count (read at or after the mint's block) has been published to them - otherwise the minted slots
+   * would be neither held nor counted until the next refresh. If the count can't be read or published,
+   * the hold is kept and expires on its own.
+   * @param blockNumber Block the mint transaction landed in (latest block when it never landed)
+   */
+  async releaseAfterMint(tokenAddress: Address, reservationId: string, blockNumber?: bigint): Promise<void> {
+    try {
+      const atBlock = blockNumber ?? await this.publicClient.getBlockNumber() as bigint;
+      const mintCount = Number(await this.publicClient.readContract({
+        address: tokenAddress,
+        abi: X402_TOKEN_ABI,
+        functionName: 'mintCount',
+        blockNumber: atBlock,
+      }));
+
+      this.mintCountCache.set(tokenAddress.toLowerCase(), { value: mintCount, fetchedAt: Date.now() });
+      await this.mintCountWatcher?.publishMintCount(tokenAddress, mintCount, atBlock);
+      console.log(`📤 TokenCapacityManager - Published mintCount ${mintCount} for ${tokenAddress} at block ${atBlock}`);
+    } catch (error) {
+      console.error(`❌ TokenCapacityManager - Failed to refresh mintCount for ${tokenAddress}, keeping hold ${reservationId} until it expires:`, errorMessage(error));
+      return;
+    }
+
+    await this.releaseCapacity(tokenAddress, reservationId);
+  }
+
+  /**
+   * Get current on-chain mint count
+   * Prefers the watcher's shared value, falls back to polling with a 6-second cache
    */
   private async getCurrentMintCount(tokenAddress: Address): Promise<number> {
+    if (this.mintCountWatcher) {
+      const shared = await this.mintCountWatcher.getMintCount(tokenAddress);
+      if (shared !== null) {
+        return shared;
+      }
+    }
+
     const cacheKey = tokenAddress.toLowerCase();
     const cached = this.mintCountCache.get(cacheKey);
     const now = Date.now();
@@ -372,7 +519,7 @@ export class TokenCapacityManager {
 
     // Fetch from chain
     try {
-      const mintCount = await this.publicClient.readContract({
+      const mintCount = await this.reader.read({
         address: tokenAddress,
         abi: X402_TOKEN_ABI,
         functionName: 'mintCount',
@@ -388,8 +535,8 @@ export class TokenCapacityManager {
       
       console.log(`🔄 TokenCapacityManager - Fetched mintCount for ${tokenAddress}: ${value} (cached for 6s)`);
       return value;
-    } catch (error: any) {
-      console.error(`❌ TokenCapacityManager - Failed to get current mint count for ${tokenAddress}:`, error.message);
+    } catch (error) {
+      console.error(`❌ TokenCapacityManager - Failed to get current mint count for ${tokenAddress}:`, errorMessage(error));
       
       // If there's old cache, return it even if expired
       if (cached) {
@@ -419,9 +566,3 @@ export class TokenCapacityManager {
     };
   }
 }
-
-// Export convenience function
-export function createTokenCapacityManager(chain: any, redisUrl?: string): TokenCapacityManager {
-  return new TokenCapacityManager(chain, redisUrl);
-}
-
@@ -0,0 +1,146 @@
+/**
+ * Token Economics Resolver
+ * Reads each launched token's payment asset and price from its contract (permanent cache)
+ */
+
+import { type Address, type Chain, BaseError, isAddressEqual, zeroAddress } from 'viem';
+import { X402_TOKEN_ABI, USDC_ABI } from '../contracts.js';
+import { type ReadAggregator, getReadAggregator } from './readAggregator.js';
+import { ImmutableConfigCache } from './immutableConfigCache.js';
+import { type CodedError, errorMessage } from './errors.js';
+
+export interface TokenEconomics {
+  tokenAddress: Address;
+  paymentToken: Address;         // EIP-3009 asset the payer authorizes (PAYMENT_TOKEN)
+  paymentTokenName: string;      // EIP-712 domain name of the asset
+  paymentTokenDecimals: number;
+  pricePerMint: bigint;          // paymentSeed - price per recipient (asset base units)
+  mintAmount: bigint;            // Tokens minted per recipient
+  source: 'contract';
+}
+
+export interface PaymentAssetInfo {
+  name: string;
+  decimals: number;
+}
+
+/**
+ * TokenEconomicsResolver
+ * PAYMENT_TOKEN, paymentSeed and mintAmount are set at deployment and never change,
+ * so a successful read is cached permanently. Failed reads throw PRICING_UNAVAILABLE and are
+ * retried on the next request - a token is never charged the configured default terms.
+ */
+export class TokenEconomicsResolver {
+  private cache = new Map<string, Promise<TokenEconomics>>();
+  private assetCache: ImmutableConfigCache<PaymentAssetInfo>;
+  private reader: ReadAggregator;
+
+  constructor(chain: Chain, redisUrl?: string) {
+    this.reader = getReadAggregator(chain);
+    this.assetCache = new ImmutableConfigCache('payment_asset', chain.id, {
+      serialize: value => JSON.stringify(value),
+      deserialize: raw => JSON.parse(raw) as PaymentAssetInfo,
+    }, redisUrl);
+  }
+
+  /**
+   * Get payment asset and price for a token (concurrent callers share one lookup)
+   * @throws Error with code PRICING_UNAVAILABLE when the contract can't be read
+   */
+  async getTokenEconomics(tokenAddress: Address): Promise<TokenEconomics> {
+    const cacheKey = tokenAddress.toLowerCase();
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const pending = this.fetchTokenEconomics(tokenAddress);
+    this.cache.set(cacheKey, pending);
+
+    try {
+      return await pending;
+    } catch (error) {
+      this.cache.delete(cacheKey);
+      console.error(`❌ Failed to resolve token economics for ${tokenAddress}:`, errorMessage(error));
+      const unavailable = new Error(`Pricing unavailable: ${(error as BaseError).shortMessage || errorMessage(error)}`) as CodedError;
+      unavailable.code = 'PRICING_UNAVAILABLE';
+      throw unavailable;
+    }
+  }
+
+  private async fetchTokenEconomics(tokenAddress: Address): Promise<TokenEconomics> {
+    console.log(`🔍 Fetching token economics for ${tokenAddress} from chain...`);
+
+    const [paymentToken, pricePerMint, mintAmount] = await Promise.all([
+      this.reader.read({
+        address: tokenAddress,
+        abi: X402_TOKEN_ABI,
+        functionName: 'PAYMENT_TOKEN',
+      }) as Promise<Address>,
+      this.reader.read({
+        address: tokenAddress,
+        abi: X402_TOKEN_ABI,
+        functionName: 'paymentSeed',
+      }) as Promise<bigint>,
+      this.reader.read({
+        address: tokenAddress,
+        abi: X402_TOKEN_ABI,
+        functionName: 'mintAmount',
+      }) as Promise<bigint>,
+    ]);
+
+    if (isAddressEqual(paymentToken, zeroAddress)) {
+      throw new Error('PAYMENT_TOKEN is not set');
+    }
+    if (pricePerMint <= 0n) {
+      throw new Error('paymentSeed is zero');
+    }
+
+    const asset = await this.getPaymentAssetInfo(paymentToken);
+
+    console.log(`   ✅ Payment token: ${asset.name} (${paymentToken}, ${asset.decimals} decimals), price: ${pricePerMint}`);
+    return {
+      tokenAddress,
+      paymentToken,
+      paymentTokenName: asset.name,
+      paymentTokenDecimals: asset.decimals,
+      pricePerMint,
+      mintAmount,
+      source: 'contract',
+    };
+  }
+
+  /**
+   * Read name and decimals of a payment asset (shared by all tokens paying in it, permanent cache)
+   * Configured assets keep their configured EIP-712 name (PaymentAssetRegistry); decimals always come from here
+   */
+  async getPaymentAssetInfo(paymentToken: Address): Promise<PaymentAssetInfo> {
+    return this.assetCache.get(paymentToken, async () => {
+      const [name, decimals] = await Promise.all([
+        this.reader.read({
+          address: paymentToken,
+          abi: USDC_ABI,
+          functionName: 'name',
+        }) as Promise<string>,
+        this.reader.read({
+          address: paymentToken,
+          abi: USDC_ABI,
+          functionName: 'decimals',
+        }) as Promise<number>,
+      ]);
+      return { name, decimals: Number(decimals) };
+    });
+  }
+
+  /**
+   * Clear cache for a specific token (for testing only)
+   */
+  clearCache(tokenAddress?: Address) {
+    if (tokenAddress) {
+      this.cache.delete(tokenAddress.toLowerCase());
+    } else {
+      this.cache.clear();
+      this.assetCache.clear();
+    }
+  }
+}
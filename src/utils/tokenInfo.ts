@@ -0,0 +1,130 @@
+/**
+ * Token Info
+ * Token metadata and launch state read through the multicall aggregator (short-lived cache, concurrent reads coalesced)
+ */
+
+import type { Address, Chain } from 'viem';
+import { X402_TOKEN_ABI } from '../contracts.js';
+import { type ReadAggregator, getReadAggregator } from './readAggregator.js';
+
+export type TokenPhase = 'open' | 'filled' | 'expired' | 'liquidity_deployed';
+
+export interface TokenOnChainState {
+  address: Address;
+  name: string;
+  symbol: string;
+  mintAmount: bigint;
+  maxMintCount: number;
+  mintCount: number;
+  totalSupply: bigint;
+  deploymentDeadline: number;   // Unix seconds
+  liquidityDeployed: boolean;
+  fetchedAt: number;
+}
+
+export interface TokenLaunchStatus {
+  progress: number;              // mintCount / maxMintCount in percent (0-100, 2 decimals)
+  secondsUntilDeadline: number;  // Negative once the deadline has passed
+  phase: TokenPhase;
+}
+
+const STATE_FUNCTIONS = [
+  'name',
+  'symbol',
+  'mintAmount',
+  'maxMintCount',
+  'mintCount',
+  'totalSupply',
+  'deploymentDeadline',
+  'liquidityDeployed',
+] as const;
+
+/**
+ * Derive launch status from on-chain state
+ * Liquidity deployment wins over filled, filled wins over an expired deadline
+ */
+export function getTokenLaunchStatus(state: TokenOnChainState, now: number = Math.floor(Date.now() / 1000)): TokenLaunchStatus {
+  const secondsUntilDeadline = state.deploymentDeadline - now;
+  const progress = state.maxMintCount > 0
+    ? Math.min(100, Math.round((state.mintCount / state.maxMintCount) * 10000) / 100)
+    : 0;
+
+  let phase: TokenPhase = 'open';
+  if (state.liquidityDeployed) {
+    phase = 'liquidity_deployed';
+  } else if (state.mintCount >= state.maxMintCount) {
+    phase = 'filled';
+  } else if (secondsUntilDeadline <= 0) {
+    phase = 'expired';
+  }
+
+  return { progress, secondsUntilDeadline, phase };
+}
+
+/**
+ * TokenInfoService
+ */
+export class TokenInfoService {
+  private cache = new Map<string, TokenOnChainState>();
+  private inFlight = new Map<string, Promise<TokenOnChainState>>();
+  private reader: ReadAggregator;
+
+  constructor(chain: Chain, private readonly ttlMs: number = 5000) {
+    this.reader = getReadAggregator(chain);
+  }
+
+  /**
+   * Get token state (cached for ttlMs)
+   */
+  async getTokenState(tokenAddress: Address): Promise<TokenOnChainState> {
+    const cacheKey = tokenAddress.toLowerCase();
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return cached;
+    }
+
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.fetchTokenState(tokenAddress)
+      .then((state) => {
+        this.cache.set(cacheKey, state);
+        return state;
+      })
+      .finally(() => this.inFlight.delete(cacheKey));
+    this.inFlight.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Drop cached state (called when the token's mint count changes)
+   */
+  invalidate(tokenAddress: Address) {
+    this.cache.delete(tokenAddress.toLowerCase());
+  }
+
+  private async fetchTokenState(tokenAddress: Address): Promise<TokenOnChainState> {
+    const results = await Promise.all(STATE_FUNCTIONS.map(functionName => this.reader.read({
+      address: tokenAddress,
+      abi: X402_TOKEN_ABI,
+      functionName,
+    })));
+
+    const [name, symbol, mintAmount, maxMintCount, mintCount, totalSupply, deploymentDeadline, liquidityDeployed] = results;
+
+    return {
+      address: tokenAddress,
+      name: name as string,
+      symbol: symbol as string,
+      mintAmount: mintAmount as bigint,
+      maxMintCount: Number(maxMintCount),
+      mintCount: Number(mintCount),
+      totalSupply: totalSupply as bigint,
+      deploymentDeadline: Number(deploymentDeadline),
+      liquidityDeployed: liquidityDeployed as boolean,
+      fetchedAt: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Token Registry
+ * Indexes the launchpad factory's TokenCreated events into Redis
+ * Only tokens created by the factory can be minted (they are the payTo of every payment)
+ */
+
+import { EventEmitter } from 'events';
+import {
+  type Address,
+  type Chain,
+  type GetLogsReturnType,
+  type PublicClient,
+  type Transport,
+  BaseError,
+  createPublicClient,
+  getAbiItem,
+  getAddress,
+} from 'viem';
+import { Redis } from 'ioredis';
+import { FACTORY_ABI } from '../contracts.js';
+import { RedisConnectionManager } from './redisConnectionPool.js';
+import { LeaderLock } from './leaderLock.js';
+import { getChainTransport } from './rpcPool.js';
+import { errorMessage } from './errors.js';
+
+export interface RegisteredToken {
+  address: Address;
+  creator: Address;
+  name: string;
+  symbol: string;
+  mintAmount: string;
+  maxMintCount: number;
+  createdAt: number;        // TokenCreated timestamp (unix seconds)
+  blockNumber: string;
+  transactionHash: string;
+}
+
+export interface TokenRegistryOptions {
+  chain: Chain;
+  factoryAddress: Address;
+  redisUrl?: string;
+  startBlock: bigint;       // Factory deployment block (backfill starts here)
+  chunkSize?: bigint;       // Blocks per getLogs request
+  pollInterval?: number;    // Follow interval (milliseconds)
+  confirmations?: bigint;   // Blocks a TokenCreated event must be buried under before it is indexed
+}
+
+const TOKEN_CREATED_EVENT = getAbiItem({ abi: FACTORY_ABI, name: 'TokenCreated' });
+
+type TokenCreatedLog = GetLogsReturnType<typeof TOKEN_CREATED_EVENT, [typeof TOKEN_CREATED_EVENT], true>[number];
+
+/**
+ * Token Registry
+ * The leader backfills from startBlock and then follows the head; every instance reads from Redis
+ * Emits 'token-registered' (token) on the leader for each newly indexed token
+ */
+export class TokenRegistry extends EventEmitter {
+  private redis: Redis | null = null;
+  private publicClient: PublicClient<Transport, Chain>;
+  private leaderLock: LeaderLock;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private syncInProgress = false;
+
+  // Registered tokens seen by this instance (a token never leaves the registry)
+  private known = new Map<string, RegisteredToken>();
+
+  private readonly factoryAddress: Address;
+  // Keys are per chain + factory (token_registry:<chainId>:<factory>:...), so changing either starts a fresh backfill
+  private readonly tokensKey: string;
+  private readonly cursorKey: string;
+  private readonly redisUrl: string | undefined;
+  private readonly startBlock: bigint;
+  private readonly chunkSize: bigint;
+  private readonly pollInterval: number;
+  private readonly confirmations: bigint;
+
+  constructor(options: TokenRegistryOptions) {
+    super();
+    this.factoryAddress = options.factoryAddress;
+    this.redisUrl = options.redisUrl;
+    this.startBlock = options.startBlock;
+    const keyPrefix = `token_registry:${options.chain.id}:${options.factoryAddress.toLowerCase()}:`;
+    this.tokensKey = `${keyPrefix}tokens`;
+    this.cursorKey = `${keyPrefix}cursor`;
+    this.chunkSize = options.chunkSize || 5000n;
+    this.pollInterval = options.pollInterval || 3000;
+    this.confirmations = options.confirmations ?? 3n;
+    this.leaderLock = new LeaderLock(`${keyPrefix}leader`, Math.max(this.pollInterval * 5, 15000), 'TokenRegistry');
+
+    this.publicClient = createPublicClient({
+      chain: options.chain,
+      transport: getChainTransport(options.chain),
+    });
+  }
+
+  private async ensureConnection(): Promise<Redis | null> {
+    if (!this.redis && this.redisUrl) {
+      this.redis = await RedisConnectionManager.getConnection(this.redisUrl);
+    }
+    return this.redis;
+  }
+
+  /**
+   * Start backfilling / following the factory
+   */
+  start() {
+    if (this.syncTimer) return;
+
+    const tick = async () => {
+      await this.sync();
+      if (this.syncTimer) {
+        this.syncTimer = setTimeout(tick, this.pollInterval);
+      }
+    };
+    this.syncTimer = setTimeout(tick, 0);
+
+    console.log(`✅ TokenRegistry started (factory: ${this.factoryAddress}, from block ${this.startBlock})`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+    if (this.redis) {
+      await this.leaderLock.release(this.redis);
+    }
+  }
+
+  /**
+   * Look up a token created by the factory
+   * @throws When the registry can't be read (callers should not treat this as "unknown")
+   */
+  async getToken(tokenAddress: string): Promise<RegisteredToken | null> {
+    const key = tokenAddress.toLowerCase();
+    const cached = this.known.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const redis = await this.ensureConnection();
+    if (!redis) {
+      throw new Error('Token registry requires Redis');
+    }
+
+    const raw = await redis.hget(this.tokensKey, key);
+    if (!raw) {
+      return null;
+    }
+
+    const token = JSON.parse(raw) as RegisteredToken;
+    this.known.set(key, token);
+    return token;
+  }
+
+  async isRegistered(tokenAddress: string): Promise<boolean> {
+    return (await this.getToken(tokenAddress)) !== null;
+  }
+
+  /**
+   * All registered tokens
+   */
+  async listTokens(): Promise<RegisteredToken[]> {
+    const redis = await this.ensureConnection();
+    if (!redis) return [...this.known.values()];
+    return (await redis.hvals(this.tokensKey)).map(raw => JSON.parse(raw) as RegisteredToken);
+  }
+
+  /**
+   * Index TokenCreated logs from the stored cursor up to the confirmed head (leader only)
+   * Blocks within `confirmations` of the head are left for a later sync, so a reorged-out
+   * token is never registered
+   */
+  private async sync() {
+    if (this.syncInProgress) return;
+    this.syncInProgress = true;
+
+    try {
+      const redis = await this.ensureConnection();
+      if (!redis) return;
+      if (!(await this.leaderLock.acquireOrRenew(redis))) return;
+
+      const storedCursor = await redis.get(this.cursorKey);
+      let fromBlock = storedCursor !== null ? BigInt(storedCursor) + 1n : this.startBlock;
+      const head = await this.publicClient.getBlockNumber() - this.confirmations;
+
+      while (fromBlock <= head && this.syncTimer) {
+        const toBlock = fromBlock + this.chunkSize - 1n < head ? fromBlock + this.chunkSize - 1n : head;
+
+        const logs = await this.publicClient.getLogs({
+          address: this.factoryAddress,
+          event: TOKEN_CREATED_EVENT,
+          fromBlock,
+          toBlock,
+          strict: true,
+        });
+
+        const pipeline = redis.pipeline();
+        const tokens = logs.map(log => this.toRegisteredToken(log));
+        for (const token of tokens) {
+          this.known.set(token.address.toLowerCase(), token);
+          pipeline.hset(this.tokensKey, token.address.toLowerCase(), JSON.stringify(token));
+          console.log(`🆕 TokenRegistry - ${token.symbol} (${token.address}) created by ${token.creator}`);
+        }
+        pipeline.set(this.cursorKey, toBlock.toString());
+        await pipeline.exec();
+
+        for (const token of tokens) {
+          this.emit('token-registered', token);
+        }
+
+        if (head - toBlock > this.chunkSize) {
+          console.log(`📚 TokenRegistry - Backfilled to block ${toBlock} (head ${head})`);
+        }
+        fromBlock = toBlock + 1n;
+
+        // Keep the lock alive during a long backfill
+        if (!(await this.leaderLock.acquireOrRenew(redis))) return;
+      }
+    } catch (error) {
+      console.error('❌ TokenRegistry - Sync failed:', (error as BaseError).shortMessage || errorMessage(error));
+    } finally {
+      this.syncInProgress = false;
+    }
+  }
+
+  private toRegisteredToken(log: TokenCreatedLog): RegisteredToken {
+    const { tokenAddress, creator, name, symbol, mintAmount, maxMintCount, timestamp } = log.args;
+    return {
+      address: getAddress(tokenAddress),
+      creator: getAddress(creator),
+      name,
+      symbol,
+      mintAmount: mintAmount.toString(),
+      maxMintCount: Number(maxMintCount),
+      createdAt: Number(timestamp),
+      blockNumber: log.blockNumber.toString(),
+      transactionHash: log.transactionHash,
+    };
+  }
+}
+
+// Singleton instance
+let tokenRegistryInstance: TokenRegistry | null = null;
+
+/**
+ * Get TokenRegistry singleton
+ * FACTORY_START_BLOCK is required - backfilling from genesis would take thousands of getLogs requests,
+ * and every token would be refused until the backfill reached it
+ */
+export function getTokenRegistry(options?: Pick<TokenRegistryOptions, 'chain' | 'factoryAddress' | 'redisUrl'>): TokenRegistry {
+  if (!tokenRegistryInstance && options) {
+    const startBlock = process.env.FACTORY_START_BLOCK?.trim();
+    if (!startBlock || !/^\d+$/.test(startBlock)) {
+      throw new Error('FACTORY_START_BLOCK (the factory deployment block) is required when FACTORY_ADDRESS is set');
+    }
+
+    tokenRegistryInstance = new TokenRegistry({
+      ...options,
+      startBlock: BigInt(startBlock),
+      chunkSize: BigInt(process.env.FACTORY_LOG_CHUNK_SIZE || '5000'),
+      pollInterval: parseInt(process.env.TOKEN_REGISTRY_POLL_MS || '3000', 10),
+      confirmations: BigInt(process.env.FACTORY_CONFIRMATIONS || '3'),
+    });
+  }
+
+  if (!tokenRegistryInstance) {
+    throw new Error('TokenRegistry not initialized. Provide options on first call.');
+  }
+
+  return tokenRegistryInstance;
+}
+
+/**
+ * Shutdown TokenRegistry
+ */
+export async function shutdownTokenRegistry(): Promise<void> {
+  if (tokenRegistryInstance) {
+    console.log('🛑 Shutting down TokenRegistry...');
+    await tokenRegistryInstance.stop();
+    tokenRegistryInstance = null;
+    console.log('✅ TokenRegistry shut down');
+  }
+}
@@ -19,7 +19,3 @@ export const BSC_RPC_LIST = [
     'https://rpc-bsc.48.club',
   'https://lb.drpc.live/bsc/AoblK20ilErNoa-Q4ia8Ehv3qC6ArHQR8LlCQrxF2MGT',
   ];
-
-export function getRandomBscRpc() {
-  return BSC_RPC_LIST[Math.floor(Math.random() * BSC_RPC_LIST.length)];
-}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { mock } from 'node:test';
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import { RedisConnectionManager } from '../../src/utils/redisConnectionPool.js';
+
+export interface TestRedis {
+  redisUrl: string;
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Redis for a test suite: the server at TEST_REDIS_URL when set (e.g. redis://127.0.0.1:6379),
+ * otherwise an in-memory fake handed out by RedisConnectionManager (Lua scripts included)
+ * Call from before(); mock.restoreAll() in after() removes the fake
+ */
+export function useTestRedis(): TestRedis {
+  const redisUrl = process.env.TEST_REDIS_URL;
+  if (redisUrl) {
+    return { redisUrl, disconnect: () => RedisConnectionManager.disconnect() };
+  }
+
+  const fake = new RedisMock() as unknown as Redis;
+  mock.method(RedisConnectionManager, 'getConnection', async (url?: string) => (url ? fake : null));
+  return {
+    redisUrl: 'redis://fake',
+    disconnect: async () => {
+      await fake.flushall();
+      fake.disconnect();
+    },
+  };
+}
@@ -0,0 +1,245 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import { request as httpRequest } from 'http';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import type { Request, Response } from 'express';
+import { type TestRedis, useTestRedis } from './helpers/redis.js';
+
+// The middleware decodes X-PAYMENT with the x402 workspace package
+const X402_AVAILABLE = await import('x402/schemes').then(() => true, () => false);
+
+type Handler = (req: Request, res: Response) => unknown;
+
+function randomHex(bytes: number): string {
+  return `0x${randomBytes(bytes).toString('hex')}`;
+}
+
+/**
+ * X-PAYMENT header for an EIP-3009 authorization (base64 JSON, as produced by x402 clients)
+ */
+function paymentHeader(from: string, nonce: string): string {
+  const payment = {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'bsc',
+    payload: {
+      chainId: 56,
+      contract: '0x2cba817f6e3ca58ff702dc66feeecb230a2ef349',
+      signature: randomHex(65),
+      authorization: {
+        from,
+        to: '0x1111111111111111111111111111111111111111',
+        value: '10000000',
+        validAfter: '0',
+        validBefore: String(Math.floor(Date.now() / 1000) + 600),
+        nonce,
+      },
+    },
+  };
+  return Buffer.from(JSON.stringify(payment)).toString('base64');
+}
+
+const TOKEN = '0x2222222222222222222222222222222222222222';
+const ALICE = '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa';
+const BOB = '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB';
+
+const MINT_BODY = { tokenAddress: TOKEN, recipients: [ALICE, BOB] };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('deduplicationMiddleware', { skip: !X402_AVAILABLE && 'x402 package not built' }, () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let calls = 0;
+  let redis: TestRedis;
+
+  before(async () => {
+    // The connection pool logs every command
+    mock.method(console, 'log', () => {});
+    const { default: express } = await import('express');
+    const { deduplicationMiddleware } = await import('../src/middleware/concurrencyControl.js');
+    redis = useTestRedis();
+
+    const app = express();
+    app.use(express.json());
+    app.post(
+      '/mint',
+      deduplicationMiddleware(redis.redisUrl, { waitTimeoutMs: 1000, pollIntervalMs: 20 }),
+      async (req, res) => {
+        calls++;
+        await handler(req, res);
+      }
+    );
+
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    await redis?.disconnect();
+    mock.restoreAll();
+  });
+
+  const post = (payment: string | null, body: unknown = MINT_BODY, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}/mint`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(payment ? { 'x-payment': payment } : {}),
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+
+  const newPayment = () => paymentHeader(randomHex(20), randomHex(32));
+
+  it('replays a completed response for the same payment', async () => {
+    calls = 0;
+    handler = (_req, res) => res.json({ success: true, paymentTxHash: '0xabc' });
+    const payment = newPayment();
+
+    const first = await post(payment);
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get('idempotent-replayed'), null);
+
+    const second = await post(payment);
+    assert.equal(second.status, 200);
+    assert.equal(second.headers.get('idempotent-replayed'), 'true');
+    assert.deepEqual(await second.json(), { success: true, paymentTxHash: '0xabc' });
+    assert.equal(calls, 1);
+  });
+
+  it('replays failures after settlement, but releases failures before it', async () => {
+    calls = 0;
+    const settledPayment = newPayment();
+    handler = (_req, res) => res.status(500).json({ error: 'Mint failed', paymentTxHash: '0xabc' });
+    await post(settledPayment);
+    assert.equal((await post(settledPayment)).headers.get('idempotent-replayed'), 'true');
+    assert.equal(calls, 1);
+
+    calls = 0;
+    const unsettledPayment = newPayment();
+    handler = (_req, res) => res.status(400).json({ error: 'Invalid recipients' });
+    await post(unsettledPayment);
+    const retry = await post(unsettledPayment);
+    assert.equal(retry.status, 400);
+    assert.equal(retry.headers.get('idempotent-replayed'), null);
+    assert.equal(calls, 2);
+  });
+
+  it('rejects a reused payment for a different mint', async () => {
+    handler = (_req, res) => res.json({ success: true });
+    const payment = newPayment();
+
+    await post(payment);
+    assert.equal((await post(payment, { ...MINT_BODY, recipients: [ALICE] })).status, 422);
+    assert.equal((await post(payment, { ...MINT_BODY, tokenAddress: BOB })).status, 422);
+  });
+
+  it('fingerprints canonical fields, not the raw body', async () => {
+    calls = 0;
+    handler = (_req, res) => res.json({ success: true });
+    const payment = newPayment();
+
+    await post(payment);
+    const reordered = await post(payment, {
+      recipients: [BOB.toLowerCase(), ALICE],
+      tokenAddress: ` ${TOKEN.toUpperCase().replace('0X', '0x')} `,
+      client: 'retry',
+    });
+    assert.equal(reordered.headers.get('idempotent-replayed'), 'true');
+    assert.equal(calls, 1);
+  });
+
+  it('makes a duplicate wait for the in-flight original and replay its outcome', async () => {
+    calls = 0;
+    handler = async (_req, res) => {
+      await sleep(200);
+      res.json({ success: true, paymentTxHash: '0xdef' });
+    };
+    const payment = newPayment();
+
+    const [first, second] = await Promise.all([post(payment), sleep(50).then(() => post(payment))]);
+    assert.equal(first.status, 200);
+    assert.equal(second.status, 200);
+    assert.equal(second.headers.get('idempotent-replayed'), 'true');
+    assert.equal(calls, 1);
+  });
+
+  it('answers 409 when the original outlasts the wait timeout', async () => {
+    handler = async (_req, res) => {
+      await sleep(1500);
+      res.json({ success: true });
+    };
+    const payment = newPayment();
+
+    const original = post(payment);
+    await sleep(50);
+    const duplicate = await post(payment);
+    assert.equal(duplicate.status, 409);
+    assert.ok(duplicate.headers.get('retry-after'));
+    await original;
+  });
+
+  it('stores the outcome when the client disconnects before the response', async () => {
+    calls = 0;
+    let finished!: () => void;
+    const handlerDone = new Promise<void>(resolve => { finished = resolve; });
+    handler = async (_req, res) => {
+      await sleep(200);
+      res.json({ success: true, paymentTxHash: '0x123' });
+      finished();
+    };
+    const payment = newPayment();
+
+    // Send the request and drop the socket while the handler is still settling
+    const body = JSON.stringify(MINT_BODY);
+    const { port } = server.address() as AddressInfo;
+    const dropped = httpRequest({
+      host: '127.0.0.1',
+      port,
+      path: '/mint',
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'content-length': Buffer.byteLength(body), 'x-payment': payment },
+    });
+    dropped.on('error', () => {});
+    dropped.end(body);
+    await sleep(50);
+    dropped.destroy();
+
+    await handlerDone;
+    const retry = await post(payment);
+    assert.equal(retry.status, 200);
+    assert.equal(retry.headers.get('idempotent-replayed'), 'true');
+    assert.deepEqual(await retry.json(), { success: true, paymentTxHash: '0x123' });
+    assert.equal(calls, 1);
+  });
+
+  it('scopes Idempotency-Key to the payer', async () => {
+    calls = 0;
+    handler = (_req, res) => res.json({ success: true });
+    const headers = { 'idempotency-key': `key-${randomHex(4)}` };
+
+    await post(newPayment(), MINT_BODY, headers);
+    const otherPayer = await post(newPayment(), MINT_BODY, headers);
+    assert.equal(otherPayer.headers.get('idempotent-replayed'), null);
+    assert.equal(calls, 2);
+  });
+
+  it('passes through requests without a payment', async () => {
+    calls = 0;
+    handler = (_req, res) => res.status(402).json({ error: 'Payment required' });
+
+    await post(null);
+    await post(null);
+    assert.equal(calls, 2);
+  });
+});
@@ -0,0 +1,46 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import type { Address } from 'viem';
+import { bsc } from 'viem/chains';
+import { MintCountWatcher } from '../src/utils/mintCountWatcher.js';
+import { RedisConnectionManager } from '../src/utils/redisConnectionPool.js';
+import { type TestRedis, useTestRedis } from './helpers/redis.js';
+
+describe('MintCountWatcher', () => {
+  let redis: TestRedis;
+  let watcher: MintCountWatcher;
+
+  before(() => {
+    // The connection pool logs every command
+    mock.method(console, 'log', () => {});
+    redis = useTestRedis();
+    watcher = new MintCountWatcher({ chain: bsc, redisUrl: redis.redisUrl });
+  });
+
+  after(async () => {
+    await redis.disconnect();
+    mock.restoreAll();
+  });
+
+  const newToken = () => `0x${randomBytes(20).toString('hex')}` as Address;
+
+  it('reads shared counts without marking the token active', async () => {
+    const token = newToken();
+    const client = await RedisConnectionManager.getConnection(redis.redisUrl);
+
+    assert.equal(await watcher.getMintCount(token), null);
+    await client!.set(`mint_count:56:${token}`, JSON.stringify({ count: 7, blockNumber: '100', updatedAt: Date.now() }));
+    assert.equal(await watcher.getMintCount(token), 7);
+
+    assert.equal(await client!.zscore('mint_count:56:active', token), null);
+  });
+
+  it('watches tokens marked active', async () => {
+    const token = newToken();
+    const client = await RedisConnectionManager.getConnection(redis.redisUrl);
+
+    await watcher.markActive(token);
+    assert.notEqual(await client!.zscore('mint_count:56:active', token), null);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MintQuoteSigner } from '../src/utils/mintQuote.js';
+import { errorCode } from '../src/utils/errors.js';
+
+const QUOTE = {
+  tokenAddress: '0xAbCdEf0000000000000000000000000000000001',
+  recipients: 3,
+  amounts: { '0x2cba817f6e3ca58ff702dc66feeecb230a2ef349': '30000000' },
+};
+
+function assertQuoteError(fn: () => unknown, code: string) {
+  assert.throws(fn, (error: unknown) => errorCode(error) === code);
+}
+
+describe('MintQuoteSigner', () => {
+  it('verifies the quotes it signs', () => {
+    const signer = new MintQuoteSigner('secret', 120);
+    const { token, payload } = signer.sign(QUOTE);
+
+    assert.equal(payload.tokenAddress, QUOTE.tokenAddress.toLowerCase());
+    assert.equal(payload.expiresAt - payload.issuedAt, 120);
+    assert.deepEqual(signer.verify(token), payload);
+  });
+
+  it('accepts quotes signed by another instance with the same secret', () => {
+    const { token } = new MintQuoteSigner('secret', 120).sign(QUOTE);
+    assert.equal(new MintQuoteSigner('secret', 60).verify(token).recipients, 3);
+  });
+
+  it('rejects quotes signed with a different secret', () => {
+    const { token } = new MintQuoteSigner('secret', 120).sign(QUOTE);
+    assertQuoteError(() => new MintQuoteSigner('other-secret', 120).verify(token), 'INVALID_QUOTE');
+  });
+
+  it('rejects a tampered payload or signature', () => {
+    const signer = new MintQuoteSigner('secret', 120);
+    const { token, payload } = signer.sign(QUOTE);
+    const [body, signature] = token.split('.');
+
+    const cheaper = { ...payload, amounts: { '0x2cba817f6e3ca58ff702dc66feeecb230a2ef349': '1' } };
+    const tamperedBody = Buffer.from(JSON.stringify(cheaper)).toString('base64url');
+    assertQuoteError(() => signer.verify(`${tamperedBody}.${signature}`), 'INVALID_QUOTE');
+
+    const flipped = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+    assertQuoteError(() => signer.verify(`${body}.${flipped}`), 'INVALID_QUOTE');
+    assertQuoteError(() => signer.verify(`${body}.${signature.slice(0, -4)}`), 'INVALID_QUOTE');
+  });
+
+  it('rejects malformed tokens', () => {
+    const signer = new MintQuoteSigner('secret', 120);
+    assertQuoteError(() => signer.verify(''), 'INVALID_QUOTE');
+    assertQuoteError(() => signer.verify('no-signature'), 'INVALID_QUOTE');
+  });
+
+  it('rejects expired quotes', (t) => {
+    const signer = new MintQuoteSigner('secret', 120);
+    const { token, payload } = signer.sign(QUOTE);
+
+    t.mock.method(Date, 'now', () => (payload.expiresAt + 1) * 1000);
+    assertQuoteError(() => signer.verify(token), 'QUOTE_EXPIRED');
+  });
+
+  it('still accepts a quote in its last second', (t) => {
+    const signer = new MintQuoteSigner('secret', 120);
+    const { token, payload } = signer.sign(QUOTE);
+
+    t.mock.method(Date, 'now', () => payload.expiresAt * 1000 + 999);
+    assert.equal(signer.verify(token).quoteId, payload.quoteId);
+  });
+});
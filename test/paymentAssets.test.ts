@@ -0,0 +1,126 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Address } from 'viem';
+import { PaymentAssetRegistry, parsePaymentAssets } from '../src/utils/paymentAssets.js';
+import type { PaymentAssetInfo, TokenEconomics } from '../src/utils/tokenEconomics.js';
+
+const TOKEN = '0x1111111111111111111111111111111111111111' as Address;
+const USD4 = '0x2CBa817f6e3Ca58ff702Dc66feEEcb230A2EF349' as Address;
+const USDC = '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d' as Address;
+const DAI = '0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3' as Address;
+const TREASURY = '0x3333333333333333333333333333333333333333' as Address;
+
+const ECONOMICS: TokenEconomics = {
+  tokenAddress: TOKEN,
+  paymentToken: USD4,
+  paymentTokenName: 'USD4 Token',
+  paymentTokenDecimals: 6,
+  pricePerMint: 10_000_001n,   // 10.000001 USD4
+  mintAmount: 1000n,
+  source: 'contract',
+};
+
+const ON_CHAIN: Record<string, PaymentAssetInfo> = {
+  [USDC.toLowerCase()]: { name: 'USD Coin', decimals: 18 },
+  [DAI.toLowerCase()]: { name: 'Dai', decimals: 4 },
+};
+
+async function getAssetInfo(address: Address): Promise<PaymentAssetInfo> {
+  const info = ON_CHAIN[address.toLowerCase()];
+  if (!info) throw new Error('execution reverted');
+  return info;
+}
+
+describe('parsePaymentAssets', () => {
+  it('checksums addresses and defaults the EIP-712 version', () => {
+    assert.deepEqual(parsePaymentAssets(`[{"address":"${USDC.toLowerCase()}","name":"USD Coin","price":10}]`), [
+      { address: USDC, name: 'USD Coin', version: '1', price: '10' },
+    ]);
+    assert.deepEqual(parsePaymentAssets(''), []);
+  });
+
+  it('rejects malformed entries', () => {
+    assert.throws(() => parsePaymentAssets('{}'), /expected JSON array/);
+    assert.throws(() => parsePaymentAssets('[{"address":"0x12","name":"X"}]'), /Invalid payment asset address/);
+    assert.throws(() => parsePaymentAssets(`[{"address":"${USDC}"}]`), /missing its EIP-712 name/);
+    assert.throws(() => parsePaymentAssets(`[{"address":"${USDC}","name":"USD Coin","price":"-1"}]`), /invalid price/);
+  });
+});
+
+describe('PaymentAssetRegistry', () => {
+  before(() => {
+    mock.method(console, 'warn', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  const assets = [
+    { address: USD4, name: 'USD4', version: '1' },
+    { address: USDC, name: 'USD Coin', version: '2', price: '12.5' },
+    { address: DAI, name: 'Dai Stablecoin', version: '1' },
+  ];
+
+  it("offers the token's PAYMENT_TOKEN first, paid to the token contract under its configured name", async () => {
+    const registry = new PaymentAssetRegistry(assets, { getAssetInfo, treasury: TREASURY });
+    const [primary] = await registry.getPaymentOptions(ECONOMICS);
+
+    assert.deepEqual(primary, {
+      asset: { address: USD4, name: 'USD4', version: '1', decimals: 6 },
+      pricePerMint: ECONOMICS.pricePerMint,
+      payTo: TOKEN,
+    });
+  });
+
+  it('prices alternative assets with their on-chain decimals and sends them to the treasury', async () => {
+    const registry = new PaymentAssetRegistry(assets, { getAssetInfo, treasury: TREASURY });
+    const [, usdc, dai] = await registry.getPaymentOptions(ECONOMICS);
+
+    // Configured price in whole units
+    assert.deepEqual(usdc, {
+      asset: { address: USDC, name: 'USD Coin', version: '2', decimals: 18 },
+      pricePerMint: 12_500_000_000_000_000_000n,
+      payTo: TREASURY,
+    });
+    // paymentSeed scaled 1:1 to fewer decimals, rounded up
+    assert.equal(dai.pricePerMint, 100_001n);
+    assert.equal(dai.payTo, TREASURY);
+  });
+
+  it('offers only the PAYMENT_TOKEN without a treasury', async () => {
+    const registry = new PaymentAssetRegistry(assets, { getAssetInfo });
+    const options = await registry.getPaymentOptions(ECONOMICS);
+
+    assert.deepEqual(options.map(option => option.asset.address), [USD4]);
+  });
+
+  it('leaves out an asset whose decimals cannot be read', async () => {
+    const unreadable = '0x4444444444444444444444444444444444444444' as Address;
+    const registry = new PaymentAssetRegistry(
+      [...assets, { address: unreadable, name: 'Broken', version: '1' }],
+      { getAssetInfo, treasury: TREASURY }
+    );
+    const options = await registry.getPaymentOptions(ECONOMICS);
+
+    assert.deepEqual(options.map(option => option.asset.address), [USD4, USDC, DAI]);
+  });
+
+  it('uses the on-chain name for a PAYMENT_TOKEN that is not configured', async () => {
+    const registry = new PaymentAssetRegistry([], { getAssetInfo, treasury: TREASURY });
+    const [primary] = await registry.getPaymentOptions(ECONOMICS);
+
+    assert.equal(primary.asset.name, 'USD4 Token');
+  });
+
+  it('matches a payment payload to the option of its asset', async () => {
+    const registry = new PaymentAssetRegistry(assets, { getAssetInfo, treasury: TREASURY });
+    const options = await registry.getPaymentOptions(ECONOMICS);
+
+    assert.equal(registry.findPaymentOption(options, USDC.toLowerCase()), options[1]);
+    assert.equal(registry.findPaymentOption(options, USD4), options[0]);
+    assert.equal(registry.findPaymentOption(options, '0x5555555555555555555555555555555555555555'), undefined);
+    assert.equal(registry.findPaymentOption(options, 'not-an-address'), undefined);
+    assert.equal(registry.findPaymentOption(options, undefined), undefined);
+  });
+});
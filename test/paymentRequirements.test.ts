@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Address } from 'viem';
+import { X402_VERSION, buildPaymentRequiredResponse, buildPaymentRequirements } from '../src/utils/paymentRequirements.js';
+import type { PaymentAsset } from '../src/utils/paymentAssets.js';
+import { calculateMintPrice } from '../src/utils/pricing.js';
+
+const TOKEN = '0x1111111111111111111111111111111111111111' as Address;
+const TREASURY = '0x3333333333333333333333333333333333333333' as Address;
+const RESOURCE = 'https://launchpad.example/api/mint';
+
+const USD4: PaymentAsset = { address: '0x2CBa817f6e3Ca58ff702Dc66feEEcb230A2EF349', name: 'USD4', version: '1', decimals: 6 };
+const USDC: PaymentAsset = { address: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', name: 'USD Coin', version: '2', decimals: 18 };
+
+const TIERS = [{ minRecipients: 10, discountBps: 500 }];
+
+describe('buildPaymentRequirements', () => {
+  it('asks for the total of each asset in its own base units', () => {
+    const accepts = [
+      { asset: USD4, pricePerMint: 10_000_000n, payTo: TOKEN },
+      { asset: USDC, pricePerMint: 10_000_000_000_000_000_000n, payTo: TREASURY },
+    ].map(option => buildPaymentRequirements({
+      network: 'bsc',
+      resource: RESOURCE,
+      payTo: option.payTo,
+      asset: option.asset,
+      mintPrice: calculateMintPrice(10, option.pricePerMint, TIERS),
+    }));
+
+    assert.deepEqual(accepts.map(requirements => requirements.maxAmountRequired), [
+      '95000000',                  // 10 x 10 USD4, 5% off
+      '95000000000000000000',      // 10 x 10 USDC, 5% off
+    ]);
+    assert.deepEqual(accepts.map(requirements => [requirements.asset, requirements.payTo]), [
+      [USD4.address, TOKEN],
+      [USDC.address, TREASURY],
+    ]);
+  });
+
+  it('carries the EIP-712 domain and price breakdown in extra', () => {
+    const requirements = buildPaymentRequirements({
+      network: 'bsc',
+      resource: RESOURCE,
+      payTo: TREASURY,
+      asset: USDC,
+      mintPrice: calculateMintPrice(3, 2_000_000_000_000_000_000n),
+    });
+
+    assert.deepEqual(requirements, {
+      scheme: 'exact',
+      network: 'bsc',
+      maxAmountRequired: '6000000000000000000',
+      resource: RESOURCE,
+      description: 'Token mint payment',
+      mimeType: 'application/json',
+      payTo: TREASURY,
+      maxTimeoutSeconds: 600,
+      asset: USDC.address,
+      extra: {
+        name: 'USD Coin',
+        version: '2',
+        decimals: 18,
+        recipients: 3,
+        unitPrice: '2000000000000000000',
+        discountBps: 0,
+      },
+    });
+  });
+});
+
+describe('buildPaymentRequiredResponse', () => {
+  it('wraps the requirements in an x402 402 body', () => {
+    const requirements = buildPaymentRequirements({
+      network: 'bsc',
+      resource: RESOURCE,
+      payTo: TOKEN,
+      asset: USD4,
+      mintPrice: calculateMintPrice(1, 10_000_000n),
+      description: 'Mint 1 token',
+      maxTimeoutSeconds: 120,
+    });
+
+    assert.deepEqual(buildPaymentRequiredResponse('X-PAYMENT header is required', [requirements]), {
+      x402Version: X402_VERSION,
+      error: 'X-PAYMENT header is required',
+      accepts: [requirements],
+    });
+    assert.equal(requirements.description, 'Mint 1 token');
+    assert.equal(requirements.maxTimeoutSeconds, 120);
+  });
+});
@@ -0,0 +1,91 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomBytes } from 'crypto';
+import type { Address } from 'viem';
+import { PendingMintTracker } from '../src/utils/tokenCapacityManager.js';
+import { RedisConnectionManager } from '../src/utils/redisConnectionPool.js';
+import { type TestRedis, useTestRedis } from './helpers/redis.js';
+
+describe('PendingMintTracker', () => {
+  let redis: TestRedis;
+  let tracker: PendingMintTracker;
+  let token: Address;
+
+  before(() => {
+    // The connection pool logs every command
+    mock.method(console, 'log', () => {});
+    redis = useTestRedis();
+    tracker = new PendingMintTracker(56, redis.redisUrl, 60000);
+  });
+
+  beforeEach(() => {
+    token = `0x${randomBytes(20).toString('hex')}` as Address;
+  });
+
+  after(async () => {
+    await redis.disconnect();
+    mock.restoreAll();
+  });
+
+  it('reserves while the hold fits under maxMintCount', async () => {
+    assert.deepEqual(await tracker.tryReservePending(token, 'a', 3, 5, 10), { reserved: true, pendingCount: 3, currentMintCount: 5 });
+    assert.deepEqual(await tracker.tryReservePending(token, 'b', 2, 5, 10), { reserved: true, pendingCount: 5, currentMintCount: 5 });
+    assert.equal(await tracker.getPendingCount(token), 5);
+    await tracker.clearPending(token);
+  });
+
+  it('rejects a hold that would exceed maxMintCount and leaves the count unchanged', async () => {
+    await tracker.tryReservePending(token, 'a', 4, 5, 10);
+
+    assert.deepEqual(await tracker.tryReservePending(token, 'b', 2, 5, 10), { reserved: false, pendingCount: 4, currentMintCount: 5 });
+    assert.equal(await tracker.getPendingCount(token), 4);
+    await tracker.clearPending(token);
+  });
+
+  it('never over-reserves under concurrent requests', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 20 }, (_, index) => tracker.tryReservePending(token, `r${index}`, 1, 0, 7))
+    );
+
+    assert.equal(results.filter(result => result.reserved).length, 7);
+    assert.equal(await tracker.getPendingCount(token), 7);
+    await tracker.clearPending(token);
+  });
+
+  it('releases a hold once by its reservation id', async () => {
+    await tracker.tryReservePending(token, 'a', 3, 0, 10);
+    await tracker.tryReservePending(token, 'b', 2, 0, 10);
+
+    assert.equal(await tracker.releaseHold(token, 'a'), 2);
+    assert.equal(await tracker.releaseHold(token, 'a'), 2);
+    assert.equal(await tracker.releaseHold(token, 'unknown'), 2);
+    assert.equal(await tracker.releaseHold(token, 'b'), 0);
+  });
+
+  it('sweeps expired holds', async () => {
+    const shortLived = new PendingMintTracker(56, redis.redisUrl, 50);
+
+    await shortLived.tryReservePending(token, 'a', 3, 0, 3);
+    assert.equal((await shortLived.tryReservePending(token, 'b', 1, 0, 3)).reserved, false);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.equal(await shortLived.getPendingCount(token), 0);
+    assert.deepEqual(await shortLived.tryReservePending(token, 'b', 3, 0, 3), { reserved: true, pendingCount: 3, currentMintCount: 0 });
+    await shortLived.clearPending(token);
+  });
+
+  it('checks against the shared mint count when it is higher than the caller\'s', async () => {
+    const mintCountKey = `mint_count:56:${token.toLowerCase()}`;
+    const client = await RedisConnectionManager.getConnection(redis.redisUrl);
+    await client!.set(mintCountKey, JSON.stringify({ count: 8, blockNumber: '100', updatedAt: Date.now() }));
+
+    // The caller read 5 before a mint of 3 was published
+    assert.deepEqual(await tracker.tryReservePending(token, 'a', 3, 5, 10), { reserved: false, pendingCount: 0, currentMintCount: 8 });
+    assert.deepEqual(await tracker.tryReservePending(token, 'b', 2, 5, 10), { reserved: true, pendingCount: 2, currentMintCount: 8 });
+    // A stale shared count never lowers the caller's
+    assert.equal((await tracker.tryReservePending(token, 'c', 1, 9, 10)).reserved, false);
+
+    await client!.del(mintCountKey);
+    await tracker.clearPending(token);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMintPrice, parseVolumeTiers } from '../src/utils/pricing.js';
+
+describe('parseVolumeTiers', () => {
+  it('parses pairs and sorts them by minRecipients descending', () => {
+    assert.deepEqual(parseVolumeTiers(' 10:500, 50:1000 '), [
+      { minRecipients: 50, discountBps: 1000 },
+      { minRecipients: 10, discountBps: 500 },
+    ]);
+    assert.deepEqual(parseVolumeTiers(undefined), []);
+    assert.deepEqual(parseVolumeTiers('  '), []);
+  });
+
+  it('rejects malformed tiers', () => {
+    assert.throws(() => parseVolumeTiers('10'), /Invalid volume tier "10"/);
+    assert.throws(() => parseVolumeTiers('0:500'), /Invalid volume tier/);
+    assert.throws(() => parseVolumeTiers('10:10000'), /Invalid volume tier/);
+    assert.throws(() => parseVolumeTiers('10:-1'), /Invalid volume tier/);
+  });
+});
+
+describe('calculateMintPrice', () => {
+  it('scales linearly with the recipient count without tiers', () => {
+    assert.deepEqual(calculateMintPrice(3, 10_000_000n), {
+      recipientCount: 3,
+      unitPrice: 10_000_000n,
+      discountBps: 0,
+      total: 30_000_000n,
+    });
+  });
+
+  it('applies the highest tier the request reaches, in any tier order', () => {
+    const tiers = [
+      { minRecipients: 10, discountBps: 500 },
+      { minRecipients: 50, discountBps: 1000 },
+    ];
+
+    assert.equal(calculateMintPrice(9, 1_000n, tiers).discountBps, 0);
+    assert.equal(calculateMintPrice(10, 1_000n, tiers).total, 9_500n);
+    assert.equal(calculateMintPrice(50, 1_000n, tiers).total, 45_000n);
+    assert.equal(calculateMintPrice(100, 1_000n, tiers).discountBps, 1000);
+  });
+
+  it('rounds a discounted total down to whole base units', () => {
+    const tiers = [{ minRecipients: 1, discountBps: 333 }];
+
+    // 7 * 3 = 21 base units, 3.33% off = 20.3007
+    assert.equal(calculateMintPrice(3, 7n, tiers).total, 20n);
+    // 10.000001 USD4 * 10, 3.33% off = 96.670009667
+    assert.equal(calculateMintPrice(10, 10_000_001n, tiers).total, 96_670_009n);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { type Address, type Chain, erc20Abi } from 'viem';
+import { bsc } from 'viem/chains';
+import { type ContractRead, ReadAggregator } from '../src/utils/readAggregator.js';
+
+const TOKEN_A = '0x1111111111111111111111111111111111111111' as Address;
+const TOKEN_B = '0x2222222222222222222222222222222222222222' as Address;
+
+type MulticallResult = { status: 'success'; result: unknown } | { status: 'failure'; error: Error };
+
+const CHAIN_WITHOUT_MULTICALL: Chain = { ...bsc, id: 99999, contracts: {} };
+
+function balanceOf(token: Address, holder: Address): ContractRead {
+  return { address: token, abi: erc20Abi, functionName: 'balanceOf', args: [holder] };
+}
+
+/**
+ * Aggregator whose multicalls are answered by `answer` instead of an RPC endpoint
+ * @returns The aggregator and the calls of every multicall it sent
+ */
+function createAggregator(
+  options: { maxBatchSize?: number; chain?: Chain },
+  answer: (calls: ContractRead[]) => MulticallResult[] | Promise<MulticallResult[]>
+) {
+  const aggregator = new ReadAggregator({ chain: options.chain ?? bsc, wait: 5, maxBatchSize: options.maxBatchSize });
+  const { publicClient } = aggregator as unknown as { publicClient: object };
+  const batches: ContractRead[][] = [];
+
+  mock.method(publicClient, 'multicall', async ({ contracts }: { contracts: ContractRead[] }) => {
+    batches.push(contracts);
+    return answer(contracts);
+  });
+  mock.method(publicClient, 'readContract', async (call: ContractRead) => {
+    batches.push([call]);
+    const [result] = await answer([call]);
+    if (result.status === 'failure') throw result.error;
+    return result.result;
+  });
+
+  return { aggregator, batches };
+}
+
+// Each read resolves to the holder it was asked about
+const echoHolder = (calls: ContractRead[]): MulticallResult[] =>
+  calls.map(call => ({ status: 'success', result: call.args![0] }));
+
+describe('ReadAggregator', () => {
+  it('merges reads of one tick into a single multicall and shares identical reads', async () => {
+    const { aggregator, batches } = createAggregator({}, echoHolder);
+
+    const results = await Promise.all([
+      aggregator.read(balanceOf(TOKEN_A, TOKEN_B)),
+      aggregator.read(balanceOf(TOKEN_B, TOKEN_A)),
+      aggregator.read(balanceOf(TOKEN_A, TOKEN_B)),
+    ]);
+
+    assert.deepEqual(results, [TOKEN_B, TOKEN_A, TOKEN_B]);
+    assert.equal(batches.length, 1);
+    assert.equal(batches[0].length, 2);
+    assert.deepEqual(aggregator.getStats(), { readsRequested: 3, callsSent: 2, batchesSent: 1 });
+  });
+
+  it('splits reads into batches of at most maxBatchSize calls', async () => {
+    const { aggregator, batches } = createAggregator({ maxBatchSize: 2 }, echoHolder);
+    const holders = Array.from({ length: 5 }, (_, index) => `0x${String(index + 1).padStart(40, '0')}` as Address);
+
+    const results = await Promise.all(holders.map(holder => aggregator.read(balanceOf(TOKEN_A, holder))));
+
+    assert.deepEqual(results, holders);
+    assert.deepEqual(batches.map(batch => batch.length), [2, 2, 1]);
+  });
+
+  it('rejects only the reads whose call failed', async () => {
+    const { aggregator } = createAggregator({}, calls => calls.map(call =>
+      call.address === TOKEN_A
+        ? { status: 'failure', error: new Error('execution reverted') }
+        : { status: 'success', result: 1n }
+    ));
+
+    const [failed, succeeded] = await Promise.allSettled([
+      aggregator.read(balanceOf(TOKEN_A, TOKEN_B)),
+      aggregator.read(balanceOf(TOKEN_B, TOKEN_A)),
+    ]);
+
+    assert.equal(failed.status, 'rejected');
+    assert.deepEqual(succeeded, { status: 'fulfilled', value: 1n });
+  });
+
+  it('rejects every read of a batch whose multicall failed', async () => {
+    const { aggregator } = createAggregator({}, () => {
+      throw new Error('RPC unavailable');
+    });
+
+    const results = await Promise.allSettled([
+      aggregator.read(balanceOf(TOKEN_A, TOKEN_B)),
+      aggregator.read(balanceOf(TOKEN_B, TOKEN_A)),
+    ]);
+
+    assert.deepEqual(results.map(result => result.status), ['rejected', 'rejected']);
+  });
+
+  it('sends individual calls on chains without Multicall3', async () => {
+    const { aggregator, batches } = createAggregator({ chain: CHAIN_WITHOUT_MULTICALL }, echoHolder);
+
+    const results = await Promise.all([
+      aggregator.read(balanceOf(TOKEN_A, TOKEN_B)),
+      aggregator.read(balanceOf(TOKEN_B, TOKEN_A)),
+      aggregator.read(balanceOf(TOKEN_A, TOKEN_B)),
+    ]);
+
+    assert.deepEqual(results, [TOKEN_B, TOKEN_A, TOKEN_B]);
+    assert.deepEqual(batches.map(batch => batch.length), [1, 1]);
+  });
+});
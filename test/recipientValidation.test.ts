@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getAddress, zeroAddress } from 'viem';
+import { validateRecipients } from '../src/utils/recipientValidation.js';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const PAYMENT_TOKEN = '0x2222222222222222222222222222222222222222';
+const ALICE = '0xd8da6bf26964af9d7eed9e03e53415d37aa96045';
+const BOB = '0xab5801a7d398351b8be11c439e05c5b3259aec9b';
+
+const options = { maxRecipients: 3, tokenAddress: TOKEN, paymentTokens: [PAYMENT_TOKEN] };
+
+describe('validateRecipients', () => {
+  it('checksums recipients and drops duplicates, reporting their indexes', () => {
+    const result = validateRecipients([getAddress(ALICE), ` ${BOB} `, ALICE, getAddress(BOB)], options);
+
+    assert.equal(result.valid, true);
+    assert.ok(result.valid);
+    assert.deepEqual(result.recipients, [getAddress(ALICE), getAddress(BOB)]);
+    assert.deepEqual(result.duplicates, [2, 3]);
+  });
+
+  it('reports every invalid entry by index', () => {
+    const badChecksum = getAddress(ALICE).replace('d8dA', 'd8Da');
+    const result = validateRecipients(
+      [42, 'not-an-address', badChecksum, zeroAddress, getAddress(TOKEN), PAYMENT_TOKEN, ALICE],
+      options
+    );
+
+    assert.equal(result.valid, false);
+    assert.ok(!result.valid);
+    assert.equal(result.error, 'Invalid recipients');
+    assert.deepEqual(
+      result.errors.map(error => [error.index, error.reason]),
+      [
+        [0, 'not_a_string'],
+        [1, 'invalid_address'],
+        [2, 'invalid_address'],
+        [3, 'zero_address'],
+        [4, 'token_contract'],
+        [5, 'payment_token'],
+      ]
+    );
+  });
+
+  it('rejects a missing, empty or oversized list', () => {
+    const missing = validateRecipients(undefined, options);
+    assert.ok(!missing.valid);
+    assert.equal(missing.error, 'Missing required field: recipients');
+
+    const empty = validateRecipients([], options);
+    assert.ok(!empty.valid);
+    assert.equal(empty.error, 'Recipients must be between 1 and 3 addresses');
+
+    const oversized = validateRecipients([
+      ALICE,
+      BOB,
+      '0x3333333333333333333333333333333333333333',
+      '0x4444444444444444444444444444444444444444',
+    ], options);
+    assert.ok(!oversized.valid);
+    assert.deepEqual(oversized.errors, []);
+  });
+
+  it('applies the limit after duplicates are dropped', () => {
+    const result = validateRecipients([ALICE, ALICE, BOB, BOB], { ...options, maxRecipients: 2 });
+    assert.ok(result.valid);
+    assert.equal(result.recipients.length, 2);
+  });
+});
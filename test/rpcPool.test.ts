@@ -0,0 +1,142 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { RpcPool } from '../src/utils/rpcPool.js';
+
+type Mode = 'ok' | 'down' | 'revert';
+
+/**
+ * Local JSON-RPC endpoint answering eth_blockNumber, switchable between healthy, failing and reverting
+ */
+interface FakeEndpoint {
+  url: string;
+  mode: Mode;
+  hits: number;
+  server: Server;
+}
+
+async function startEndpoint(blockNumber: number): Promise<FakeEndpoint> {
+  const endpoint = { mode: 'ok', hits: 0 } as FakeEndpoint;
+  endpoint.server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      endpoint.hits++;
+      const { id } = JSON.parse(raw);
+      if (endpoint.mode === 'down') {
+        res.writeHead(503).end('unavailable');
+        return;
+      }
+      const body = endpoint.mode === 'revert'
+        ? { jsonrpc: '2.0', id, error: { code: 3, message: 'execution reverted' } }
+        : { jsonrpc: '2.0', id, result: `0x${blockNumber.toString(16)}` };
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => endpoint.server.listen(0, '127.0.0.1', () => resolve()));
+  endpoint.url = `http://127.0.0.1:${(endpoint.server.address() as AddressInfo).port}`;
+  return endpoint;
+}
+
+function statusOf(pool: RpcPool, url: string) {
+  return pool.getStatus()[pool.getUrls().indexOf(url)];
+}
+
+describe('RpcPool', () => {
+  let primary: FakeEndpoint;
+  let backup: FakeEndpoint;
+
+  before(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    [primary, backup] = await Promise.all([startEndpoint(100), startEndpoint(100)]);
+  });
+
+  after(async () => {
+    await Promise.all([primary, backup].map(endpoint => new Promise(resolve => endpoint.server.close(resolve))));
+    mock.restoreAll();
+  });
+
+  it('fails over to another endpoint on endpoint errors', async () => {
+    const pool = new RpcPool([primary.url, backup.url], { maxConsecutiveFailures: 100 });
+    primary.mode = 'down';
+
+    for (let i = 0; i < 5; i++) {
+      assert.equal(await pool.request('eth_blockNumber'), '0x64');
+    }
+    primary.mode = 'ok';
+  });
+
+  it('ejects a failing endpoint and uses it again once it recovers', async () => {
+    const pool = new RpcPool([primary.url, backup.url], { maxConsecutiveFailures: 2, ejectMs: 100 });
+    primary.mode = 'down';
+
+    await pool.probe(primary.url);
+    await pool.probe(primary.url);
+
+    const ejected = statusOf(pool, primary.url);
+    assert.equal(ejected.healthy, false);
+    assert.match(ejected.ejectReason!, /consecutive failures/);
+
+    // Ejected endpoints receive no traffic
+    const hits = primary.hits;
+    for (let i = 0; i < 5; i++) {
+      await pool.request('eth_blockNumber');
+    }
+    assert.equal(primary.hits, hits);
+
+    // Back in rotation after the ejection period
+    primary.mode = 'ok';
+    await new Promise(resolve => setTimeout(resolve, 150));
+    assert.equal(statusOf(pool, primary.url).healthy, true);
+    assert.equal((await pool.probe(primary.url)).ok, true);
+    assert.equal(statusOf(pool, primary.url).consecutiveFailures, 0);
+  });
+
+  it('doubles the ejection period on repeat ejections up to maxEjectMs', async () => {
+    const pool = new RpcPool([primary.url, backup.url], { maxConsecutiveFailures: 1, ejectMs: 1000, maxEjectMs: 3000 });
+    primary.mode = 'down';
+
+    const periods: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const before = Date.now();
+      await pool.probe(primary.url);
+      periods.push(Math.round((statusOf(pool, primary.url).ejectedUntil! - before) / 1000));
+    }
+    primary.mode = 'ok';
+
+    assert.deepEqual(periods, [1, 2, 3]);
+  });
+
+  it('does not count a reverted call against the endpoint', async () => {
+    const pool = new RpcPool([primary.url, backup.url], { maxConsecutiveFailures: 1 });
+    primary.mode = 'revert';
+    backup.mode = 'revert';
+
+    const hits = primary.hits + backup.hits;
+    await assert.rejects(pool.request('eth_call'), /execution reverted/);
+
+    // Not retried elsewhere, and both endpoints stay in rotation
+    assert.equal(primary.hits + backup.hits, hits + 1);
+    assert.deepEqual(pool.getStatus().map(status => status.healthy), [true, true]);
+    primary.mode = 'ok';
+    backup.mode = 'ok';
+  });
+
+  it('ejects an endpoint lagging behind the median and reinstates it once it catches up', () => {
+    const urls = ['http://a.invalid', 'http://b.invalid', 'http://c.invalid'];
+    const pool = new RpcPool(urls, { maxBlockLag: 5 });
+
+    pool.recordBlockNumber(urls[0], 100n);
+    pool.recordBlockNumber(urls[1], 101n);
+    pool.recordBlockNumber(urls[2], 90n);
+    assert.equal(pool.getMedianBlockNumber(), 100n);
+    assert.equal(statusOf(pool, urls[2]).healthy, false);
+    assert.match(statusOf(pool, urls[2]).ejectReason!, /^stale/);
+
+    pool.recordBlockNumber(urls[2], 99n);
+    assert.equal(statusOf(pool, urls[2]).healthy, true);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { type TokenOnChainState, getTokenLaunchStatus } from '../src/utils/tokenInfo.js';
+
+const NOW = 1_700_000_000;
+
+function state(overrides: Partial<TokenOnChainState> = {}): TokenOnChainState {
+  return {
+    address: '0x1111111111111111111111111111111111111111',
+    name: 'Token',
+    symbol: 'TKN',
+    mintAmount: 1000n,
+    maxMintCount: 1000,
+    mintCount: 250,
+    totalSupply: 250_000n,
+    deploymentDeadline: NOW + 3600,
+    liquidityDeployed: false,
+    fetchedAt: NOW * 1000,
+    ...overrides,
+  };
+}
+
+describe('getTokenLaunchStatus', () => {
+  it('is open before the deadline with slots left', () => {
+    assert.deepEqual(getTokenLaunchStatus(state(), NOW), {
+      progress: 25,
+      secondsUntilDeadline: 3600,
+      phase: 'open',
+    });
+  });
+
+  it('is filled once mintCount reaches maxMintCount', () => {
+    const status = getTokenLaunchStatus(state({ mintCount: 1000 }), NOW);
+    assert.equal(status.phase, 'filled');
+    assert.equal(status.progress, 100);
+  });
+
+  it('is expired at the deadline', () => {
+    assert.equal(getTokenLaunchStatus(state({ deploymentDeadline: NOW }), NOW).phase, 'expired');
+    assert.equal(getTokenLaunchStatus(state({ deploymentDeadline: NOW + 1 }), NOW).phase, 'open');
+    assert.equal(getTokenLaunchStatus(state({ deploymentDeadline: NOW - 10 }), NOW).secondsUntilDeadline, -10);
+  });
+
+  it('ranks liquidity deployment over filled, and filled over expired', () => {
+    const everything = state({ liquidityDeployed: true, mintCount: 1000, deploymentDeadline: NOW - 1 });
+    assert.equal(getTokenLaunchStatus(everything, NOW).phase, 'liquidity_deployed');
+
+    const filledAndExpired = state({ mintCount: 1000, deploymentDeadline: NOW - 1 });
+    assert.equal(getTokenLaunchStatus(filledAndExpired, NOW).phase, 'filled');
+  });
+
+  it('rounds progress to two decimals and caps it at 100', () => {
+    assert.equal(getTokenLaunchStatus(state({ maxMintCount: 3, mintCount: 1 }), NOW).progress, 33.33);
+    assert.equal(getTokenLaunchStatus(state({ maxMintCount: 3, mintCount: 5 }), NOW).progress, 100);
+    assert.equal(getTokenLaunchStatus(state({ maxMintCount: 0, mintCount: 0 }), NOW).progress, 0);
+  });
+});
@@ -30,6 +30,20 @@ declare module "x402/types" {
     resource?: string;
   };
 
+  export type PaymentRequirements = {
+    scheme: "exact";
+    network: string;
+    maxAmountRequired: string;
+    resource: string;
+    description: string;
+    mimeType: string;
+    payTo: string;
+    maxTimeoutSeconds: number;
+    asset: string;
+    outputSchema?: Record<string, unknown>;
+    extra?: Record<string, unknown>;
+  };
+
   export type SettleResponse = {
     transaction: string;
     status: "submitted" | "confirmed" | "failed";